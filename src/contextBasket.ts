@@ -0,0 +1,87 @@
+import { randomUUID } from "crypto";
+import * as vscode from "vscode";
+
+export type BasketEntry = {
+  id: string;
+  label: string;
+  kind: string;
+  text: string;
+};
+
+const STORAGE_KEY = "copy-paste-template.contextBasket";
+
+/**
+ * Formatted snippets collected across files, persisted in workspace state so
+ * the basket survives window reloads. Also backs the "Context Basket" view.
+ */
+export class ContextBasket
+  implements vscode.TreeDataProvider<BasketEntry>, vscode.Disposable
+{
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private entries: BasketEntry[];
+
+  constructor(private readonly state: vscode.Memento) {
+    this.entries = state.get<BasketEntry[]>(STORAGE_KEY, []);
+  }
+
+  getEntries(): readonly BasketEntry[] {
+    return this.entries;
+  }
+
+  async add(entry: Omit<BasketEntry, "id">): Promise<BasketEntry> {
+    const added = { ...entry, id: randomUUID() };
+    this.entries = [...this.entries, added];
+    await this.save();
+    return added;
+  }
+
+  async remove(entry: BasketEntry): Promise<void> {
+    this.entries = this.entries.filter(({ id }) => id !== entry.id);
+    await this.save();
+  }
+
+  async move(entry: BasketEntry, offset: number): Promise<void> {
+    const index = this.entries.findIndex(({ id }) => id === entry.id);
+    const targetIndex = index + offset;
+    if (index < 0 || targetIndex < 0 || targetIndex >= this.entries.length) {
+      return;
+    }
+
+    const entries = [...this.entries];
+    const [moved] = entries.splice(index, 1);
+    entries.splice(targetIndex, 0, moved);
+    this.entries = entries;
+    await this.save();
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+    await this.save();
+  }
+
+  getTreeItem(entry: BasketEntry): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      entry.label,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.id = entry.id;
+    item.description = entry.kind;
+    item.tooltip = entry.text;
+    item.contextValue = "basketEntry";
+    return item;
+  }
+
+  getChildren(entry?: BasketEntry): BasketEntry[] {
+    return entry ? [] : [...this.entries];
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  private async save(): Promise<void> {
+    await this.state.update(STORAGE_KEY, this.entries);
+    this.changeEmitter.fire();
+  }
+}
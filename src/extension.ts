@@ -1,4 +1,41 @@
+import * as path from "path";
 import * as vscode from "vscode";
+import { BasketEntry, ContextBasket } from "./contextBasket";
+import { countBracketDelta, outlineDocument } from "./fallbackOutliner";
+import { collectFiles, globToRegExpSource } from "./fileCollector";
+import {
+  DiffFile,
+  DiffHunk,
+  expandHunks,
+  formatHunkHeader,
+  formatHunkLineRange,
+  getFirstChangedLine,
+  getHunkNewText,
+  GitChanges,
+  LineSpan,
+  readGitChanges,
+  readIndexFile,
+} from "./gitDiff";
+import {
+  buildPermalink,
+  GitHostType,
+  GitMetadataCache,
+  PermalinkLines,
+  readGitMetadata,
+} from "./gitMetadata";
+import { filterUsedImports, findImportBlock, ImportBlock } from "./importBlock";
+import {
+  compileRedactionPatterns,
+  RedactionResult,
+  redactSecrets,
+} from "./secretRedactor";
+import { renderTemplate, TemplateError } from "./templateEngine";
+import {
+  countTokens,
+  formatTokenCount,
+  TokenCountOptions,
+  TokenizerName,
+} from "./tokenCounter";
 
 type ReplacementKey =
   | "filePath"
@@ -7,7 +44,43 @@ type ReplacementKey =
   | "startLine"
   | "startChar"
   | "endLine"
-  | "endChar";
+  | "endChar"
+  | "languageId"
+  | "fenceLanguage"
+  | "imports"
+  | "diff"
+  | "oldRange"
+  | "newRange"
+  | "gitBranch"
+  | "gitCommit"
+  | "gitShortCommit"
+  | "permalink"
+  | "diagnostics";
+
+/**
+ * How fenced code blocks are laid out: `template` keeps the template's layout,
+ * `aboveRange` also moves the opening fence above the range line and wraps
+ * function text in a fence when the template has none.
+ */
+type CodeFenceStyle = "template" | "aboveRange";
+
+type SymbolSource = "provider" | "fallback" | "both";
+
+type ChangesScope = "activeFile" | "repository";
+
+type DiagnosticSeverityName = "error" | "warning" | "information" | "hint";
+
+const DEFAULT_FENCE_LANGUAGES: { [languageId: string]: string } = {
+  typescriptreact: "tsx",
+  javascriptreact: "jsx",
+  shellscript: "bash",
+  jsonc: "json",
+  plaintext: "",
+};
+
+const DEFAULT_CODE_FENCE_STYLES: { [languageId: string]: CodeFenceStyle } = {
+  python: "aboveRange",
+};
 
 const FUNCTION_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
   vscode.SymbolKind.Function,
@@ -15,6 +88,20 @@ const FUNCTION_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
   vscode.SymbolKind.Constructor,
 ]);
 
+const CLASS_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Struct,
+]);
+
+/** Symbols whose members are outlined rather than copied verbatim. */
+const OUTLINE_CONTAINER_KINDS = new Set<vscode.SymbolKind>([
+  ...CLASS_SYMBOL_KINDS,
+  vscode.SymbolKind.Namespace,
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Object,
+]);
+
 const QUALIFIED_NAME_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
   vscode.SymbolKind.Class,
   vscode.SymbolKind.Function,
@@ -22,6 +109,166 @@ const QUALIFIED_NAME_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
   vscode.SymbolKind.Constructor,
 ]);
 
+/** Types and scopes that add a segment to language-aware qualified names. */
+const SCOPE_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
+  ...CLASS_SYMBOL_KINDS,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Namespace,
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Object,
+]);
+
+type QualifiedNameStyle = "local" | "python" | "pytest" | "java" | "rust" | "cpp";
+
+const QUALIFIED_NAME_STYLE_LABELS: { [style in QualifiedNameStyle]: string } = {
+  local: "Names in this file",
+  python: "Python import path",
+  pytest: "pytest node ID",
+  java: "Java/Kotlin fully qualified name",
+  rust: "Rust path",
+  cpp: "C++ qualified name",
+};
+
+/** Styles offered next to `local` when the command runs without a style. */
+const LANGUAGE_QUALIFIED_NAME_STYLES: { [languageId: string]: QualifiedNameStyle[] } = {
+  python: ["python", "pytest"],
+  java: ["java"],
+  kotlin: ["java"],
+  rust: ["rust"],
+  cpp: ["cpp"],
+  "cuda-cpp": ["cpp"],
+};
+
+const JAVASCRIPT_LIKE_LANGUAGE_IDS = new Set([
+  "javascript",
+  "javascriptreact",
+  "typescript",
+  "typescriptreact",
+]);
+
+const BRACE_LANGUAGE_IDS = new Set([
+  ...JAVASCRIPT_LIKE_LANGUAGE_IDS,
+  "java",
+  "csharp",
+  "go",
+  "rust",
+  "c",
+  "cpp",
+  "kotlin",
+  "swift",
+]);
+
+type CommentSyntax = {
+  prefix: string;
+  suffix?: string;
+};
+
+const HASH_COMMENT: CommentSyntax = { prefix: "#" };
+const DASH_COMMENT: CommentSyntax = { prefix: "--" };
+const MARKUP_COMMENT: CommentSyntax = { prefix: "<!--", suffix: "-->" };
+const SEMICOLON_COMMENT: CommentSyntax = { prefix: ";" };
+const PERCENT_COMMENT: CommentSyntax = { prefix: "%" };
+
+/**
+ * Line comment syntax used for omission markers and inline diagnostics; `//`
+ * for anything else.
+ */
+const COMMENT_SYNTAXES: { [languageId: string]: CommentSyntax } = {
+  python: HASH_COMMENT,
+  ruby: HASH_COMMENT,
+  perl: HASH_COMMENT,
+  r: HASH_COMMENT,
+  julia: HASH_COMMENT,
+  elixir: HASH_COMMENT,
+  coffeescript: HASH_COMMENT,
+  shellscript: HASH_COMMENT,
+  powershell: HASH_COMMENT,
+  dockerfile: HASH_COMMENT,
+  makefile: HASH_COMMENT,
+  yaml: HASH_COMMENT,
+  toml: HASH_COMMENT,
+  graphql: HASH_COMMENT,
+  plaintext: HASH_COMMENT,
+  sql: DASH_COMMENT,
+  lua: DASH_COMMENT,
+  haskell: DASH_COMMENT,
+  elm: DASH_COMMENT,
+  html: MARKUP_COMMENT,
+  xml: MARKUP_COMMENT,
+  xsl: MARKUP_COMMENT,
+  markdown: MARKUP_COMMENT,
+  vue: MARKUP_COMMENT,
+  clojure: SEMICOLON_COMMENT,
+  lisp: SEMICOLON_COMMENT,
+  scheme: SEMICOLON_COMMENT,
+  ini: SEMICOLON_COMMENT,
+  latex: PERCENT_COMMENT,
+  tex: PERCENT_COMMENT,
+  erlang: PERCENT_COMMENT,
+  matlab: PERCENT_COMMENT,
+  css: { prefix: "/*", suffix: "*/" },
+};
+
+const DEFAULT_COMMENT_SYNTAX: CommentSyntax = { prefix: "//" };
+
+const DEFAULT_OMISSION_MARKER = "......";
+
+const DEFAULT_DIAGNOSTIC_TEMPLATE =
+  "- {severity}{#if source} {source}{/if}{#if code} {code}{/if} (line {line}): {message}";
+
+const DEFAULT_PROBLEMS_TEMPLATE = "{text}{#if diagnostics}\nProblems:\n{diagnostics}\n{/if}";
+
+/** Built-in `locationTemplate` formats, selected by name. */
+const LOCATION_PRESETS: { [name: string]: string } = {
+  pathLineColumn: "{filePath}:{line}:{column}",
+  markdownLink: "[{#if symbol}{symbol}{:else}{filePath}:{line}{/if}]({filePath}#L{line})",
+  vscodeUri: "{vscodeUri}",
+  permalink: "{permalink}",
+};
+
+const DIAGNOSTIC_SEVERITIES: {
+  [name in DiagnosticSeverityName]: vscode.DiagnosticSeverity;
+} = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+type LeadingTriviaRules = {
+  /** Start of an attribute, annotation or decorator line. */
+  attribute?: RegExp;
+  /** Prefixes of line doc comments, such as `///`. */
+  lineDocPrefixes?: string[];
+  /** Whether block doc comments opened with `/**` are used. */
+  blockDoc?: boolean;
+};
+
+const JSDOC_TRIVIA_RULES: LeadingTriviaRules = { attribute: /^@/, blockDoc: true };
+
+const LEADING_TRIVIA_RULES: { [languageId: string]: LeadingTriviaRules } = {
+  python: { attribute: /^@/ },
+  javascript: JSDOC_TRIVIA_RULES,
+  javascriptreact: JSDOC_TRIVIA_RULES,
+  typescript: JSDOC_TRIVIA_RULES,
+  typescriptreact: JSDOC_TRIVIA_RULES,
+  java: JSDOC_TRIVIA_RULES,
+  kotlin: JSDOC_TRIVIA_RULES,
+  swift: { attribute: /^@/, lineDocPrefixes: ["///"], blockDoc: true },
+  csharp: { attribute: /^\[/, lineDocPrefixes: ["///"], blockDoc: true },
+  rust: { attribute: /^#\[/, lineDocPrefixes: ["///"], blockDoc: true },
+  c: { lineDocPrefixes: ["///"], blockDoc: true },
+  cpp: {
+    attribute: /^(?:\[\[|template\s*<)/,
+    lineDocPrefixes: ["///"],
+    blockDoc: true,
+  },
+  go: { lineDocPrefixes: ["//"] },
+};
+
+/** How far above a definition a multi-line attribute may start. */
+const MAX_ATTRIBUTE_LINES = 30;
+
 export type FunctionSymbolMatch = {
   symbol: vscode.DocumentSymbol;
   ancestors: vscode.DocumentSymbol[];
@@ -35,11 +282,34 @@ export type DefinitionBlock = {
   endChar: number;
 };
 
+type DefinitionBlockOptions = {
+  /**
+   * Appends the Python docstring that follows the signature. Only outputs
+   * that stop at the definition want it; selections copy it with the body.
+   */
+  includeDocstring?: boolean;
+};
+
 type SelectionOmission = {
   hasPrefixOmission: boolean;
   hasSuffixOmission: boolean;
   prefixIndent: string;
   suffixIndent: string;
+  prefixLineCount: number;
+  suffixLineCount: number;
+};
+
+export type TemplateProfile = {
+  template?: string;
+  rangeTemplate?: string;
+  removeRootIndentation?: boolean;
+};
+
+export type FormattedSnippet = {
+  text: string;
+  label: string;
+  /** Signatures-only variant offered when the snippet exceeds `maxTokens`. */
+  formatSignatures?: () => Promise<FormattedSnippet | undefined>;
 };
 
 type ClipboardWriter = (text: string) => Thenable<void>;
@@ -56,10 +326,187 @@ export async function writeClipboardText(text: string): Promise<void> {
   await clipboardWriter(text);
 }
 
-export function getConfiguration(key: string): string | undefined {
+const DEFAULT_DENY_GLOBS = [
+  "**/.env",
+  "**/.env.*",
+  "**/*.pem",
+  "**/*.key",
+  "**/id_rsa",
+  "**/id_ed25519",
+];
+
+const COPY_ANYWAY = "Copy Anyway";
+
+const DEFAULT_MAX_FILES = 200;
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const COPY_SIGNATURES_ONLY = "Copy Signatures Only";
+
+let tokenStatusBarItem: vscode.StatusBarItem | undefined;
+
+const DEFAULT_SYMBOL_PROVIDER_TIMEOUT = 3000;
+const DEFAULT_SYMBOL_PROVIDER_RETRY_DELAY = 200;
+
+type CachedSymbols = {
+  version: number;
+  symbols: vscode.DocumentSymbol[];
+};
+
+const symbolCache = new Map<string, CachedSymbols>();
+const documentOpenTimes = new Map<string, number>();
+let activationTime: number | undefined;
+
+function getTokenCountOptions(): TokenCountOptions {
+  return {
+    tokenizer: getConfiguration<TokenizerName>("tokenizer"),
+    charsPerToken: getConfiguration<number>("charsPerToken"),
+  };
+}
+
+function showTokenCount(tokenCount: number, options: TokenCountOptions): void {
+  if (!tokenStatusBarItem) {
+    return;
+  }
+  tokenStatusBarItem.text = `$(clippy) ~${formatTokenCount(tokenCount)} tokens`;
+  tokenStatusBarItem.tooltip =
+    options.tokenizer === "cl100k"
+      ? "Tokens in the last copy (cl100k tokenizer)"
+      : "Estimated tokens in the last copy (characters per token heuristic)";
+  tokenStatusBarItem.show();
+}
+
+function redactCopiedText(text: string): RedactionResult | undefined {
+  if (getConfiguration<boolean>("redactSecrets") === false) {
+    return { text, count: 0 };
+  }
+
+  try {
+    const customPatterns = compileRedactionPatterns(
+      getConfiguration<string[]>("redactionPatterns") ?? []
+    );
+    return redactSecrets(text, customPatterns);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Invalid redactionPatterns setting: ${message}`);
+    return undefined;
+  }
+}
+
+export function isDeniedForCopy(uri: vscode.Uri): boolean {
+  const denyGlobs = getConfiguration<string[]>("denyGlobs") ?? DEFAULT_DENY_GLOBS;
+  const relativePath = vscode.workspace.asRelativePath(uri, false);
+  return denyGlobs.some((glob) =>
+    new RegExp(`^${globToRegExpSource(glob)}$`).test(relativePath)
+  );
+}
+
+/**
+ * Writes copied output to the clipboard and shows its token count. Secrets
+ * are masked first. When the text exceeds `maxTokens`, asks whether to
+ * cancel, copy anyway or, if `formatSignatures` is given, copy the
+ * signatures-only variant instead. Resolves to `false` when nothing was copied.
+ */
+export async function copyToClipboard(
+  text: string,
+  formatSignatures?: () => Promise<FormattedSnippet | undefined>
+): Promise<boolean> {
+  let redaction = redactCopiedText(text);
+  if (!redaction) {
+    return false;
+  }
+
+  const options = getTokenCountOptions();
+  let tokenCount = await countTokens(redaction.text, options);
+
+  const maxTokens = getConfiguration<number>("maxTokens") ?? 0;
+  if (maxTokens > 0 && tokenCount > maxTokens) {
+    const choice = await vscode.window.showWarningMessage(
+      `The copied text is about ${formatTokenCount(tokenCount)} tokens, over the limit of ${formatTokenCount(maxTokens)}`,
+      { modal: true },
+      ...(formatSignatures ? [COPY_ANYWAY, COPY_SIGNATURES_ONLY] : [COPY_ANYWAY])
+    );
+    if (choice === undefined) {
+      return false;
+    }
+    if (choice === COPY_SIGNATURES_ONLY && formatSignatures) {
+      const signatures = await formatSignatures();
+      if (!signatures) {
+        vscode.window.showInformationMessage("No function signatures found to copy");
+        return false;
+      }
+      redaction = redactCopiedText(signatures.text);
+      if (!redaction) {
+        return false;
+      }
+      tokenCount = await countTokens(redaction.text, options);
+    }
+  }
+
+  await writeClipboardText(redaction.text);
+  showTokenCount(tokenCount, options);
+  if (redaction.count > 0) {
+    vscode.window.showInformationMessage(
+      `Redacted ${redaction.count} secret(s) from the copied text`
+    );
+  }
+  return true;
+}
+
+async function copySnippet(snippet: FormattedSnippet | undefined): Promise<void> {
+  if (snippet) {
+    await copyToClipboard(snippet.text, snippet.formatSignatures);
+  }
+}
+
+export function getConfiguration<T = string>(
+  key: string,
+  scope?: vscode.ConfigurationScope
+): T | undefined {
   return vscode.workspace
-    .getConfiguration("copy-paste-template")
-    .get<string>(key);
+    .getConfiguration("copy-paste-template", scope)
+    .get<T>(key);
+}
+
+export function getProfiles(): { [name: string]: TemplateProfile } {
+  return getConfiguration<{ [name: string]: TemplateProfile }>("profiles") ?? {};
+}
+
+function getProfileSetting<T>(
+  key: string,
+  profile?: TemplateProfile,
+  scope?: vscode.ConfigurationScope
+): T | undefined {
+  const value = profile?.[key as keyof TemplateProfile];
+  return value !== undefined ? (value as T) : getConfiguration<T>(key, scope);
+}
+
+/**
+ * Resolves the profile named by a command argument. Keybindings may pass the
+ * name directly (`"args": "xml"`) or as `{ "profile": "xml" }`. Returns an
+ * empty profile when none is requested and `undefined` when the name is unknown.
+ */
+export function resolveProfileArgument(
+  arg?: unknown
+): TemplateProfile | undefined {
+  const profileName =
+    typeof arg === "string"
+      ? arg
+      : typeof arg === "object" &&
+          arg !== null &&
+          typeof (arg as { profile?: unknown }).profile === "string"
+        ? (arg as { profile: string }).profile
+        : undefined;
+  if (profileName === undefined) {
+    return {};
+  }
+
+  const profiles = getProfiles();
+  if (!Object.hasOwn(profiles, profileName)) {
+    vscode.window.showInformationMessage(
+      `No template profile named "${profileName}"`
+    );
+    return undefined;
+  }
+  return profiles[profileName] ?? {};
 }
 
 export function replacePlaceholder(
@@ -76,40 +523,95 @@ export function formatString(
   template: string,
   replacements: { [key in ReplacementKey]?: string }
 ): string {
-  return Object.entries(replacements).reduce((formatted, [key, value]) => {
-    return replacePlaceholder(formatted, key, value || "");
-  }, template);
+  return renderTemplate(template, replacements);
+}
+
+function reportTemplateError(key: string, error: unknown): undefined {
+  if (!(error instanceof TemplateError)) {
+    throw error;
+  }
+  vscode.window.showErrorMessage(`Invalid ${key} setting: ${error.message}`);
+  return undefined;
 }
 
 export function formatTemplate(
   key: string,
-  replacements: { [key in ReplacementKey]?: string }
+  replacements: { [key in ReplacementKey]?: string },
+  profile?: TemplateProfile,
+  scope?: vscode.ConfigurationScope
 ): string | undefined {
-  const template = getConfiguration(key);
+  const template = getProfileSetting<string>(key, profile, scope);
   if (!template) {
     vscode.window.showInformationMessage(`No template found for ${key}`);
     return undefined;
   }
-  return formatString(template, replacements);
+  try {
+    return formatString(template, replacements);
+  } catch (error) {
+    return reportTemplateError(key, error);
+  }
+}
+
+export function getFenceLanguage(document: vscode.TextDocument): string {
+  const fenceLanguages =
+    getConfiguration<{ [languageId: string]: string }>(
+      "fenceLanguages",
+      document
+    ) ?? DEFAULT_FENCE_LANGUAGES;
+  return Object.hasOwn(fenceLanguages, document.languageId)
+    ? fenceLanguages[document.languageId]
+    : document.languageId;
+}
+
+function getCodeFenceStyle(document: vscode.TextDocument): CodeFenceStyle {
+  return (
+    getConfiguration<CodeFenceStyle>("codeFence", document) ??
+    DEFAULT_CODE_FENCE_STYLES[document.languageId] ??
+    "template"
+  );
+}
+
+/**
+ * Returns a backtick fence longer than any backtick run in `text`, so code
+ * that itself contains fences cannot close the surrounding block early.
+ */
+export function getSafeFence(text: string): string {
+  const longestRun = (text.match(/`+/g) ?? []).reduce(
+    (longest, run) => Math.max(longest, run.length),
+    0
+  );
+  return "`".repeat(Math.max(3, longestRun + 1));
 }
 
-function wrapPythonCodeBlock(text: string): string {
-  return `\`\`\`python\n${text}\n\`\`\``;
+function widenTemplateFences(template: string, fence: string): string {
+  return template.replace(/^([ \t]*)(`{3,})/gm, (match, indent: string, ticks: string) =>
+    ticks.length < fence.length ? `${indent}${fence}` : match
+  );
+}
+
+function wrapCodeBlock(
+  text: string,
+  fenceLanguage: string,
+  fence: string
+): string {
+  return `${fence}${fenceLanguage}\n${text}\n${fence}`;
 }
 
 type TemplateFormatOptions = {
-  autoWrapPythonWithoutFence: boolean;
+  autoWrapWithoutFence: boolean;
+  /** Copied ranges, used for the `{permalink}` line anchor. */
+  ranges?: readonly vscode.Range[];
 };
 
-function movePythonFenceAboveRangeLine(
+function moveFenceAboveRangeLine(
   formattedText: string,
+  openingFence: string,
   rangeText?: string
 ): string {
   if (!rangeText || rangeText.length === 0) {
     return formattedText;
   }
 
-  const openingFence = "```python";
   const openingFenceIndex = formattedText.indexOf(openingFence);
   const rangeIndex = formattedText.indexOf(rangeText);
   if (
@@ -141,36 +643,265 @@ function movePythonFenceAboveRangeLine(
 function formatFunctionContentTemplate(
   document: vscode.TextDocument,
   replacements: { [key in ReplacementKey]?: string },
-  options: TemplateFormatOptions = { autoWrapPythonWithoutFence: true }
+  options: TemplateFormatOptions = { autoWrapWithoutFence: true },
+  profile?: TemplateProfile
 ): string | undefined {
-  const template = getConfiguration("template");
+  const template = getProfileSetting<string>("template", profile, document);
   if (!template) {
     vscode.window.showInformationMessage("No template found for template");
     return undefined;
   }
 
-  let templateForOutput = template;
+  const fenceLanguage = getFenceLanguage(document);
+  const fenceStyle = getCodeFenceStyle(document);
+  const diagnostics = getDiagnosticsInRanges(document, options.ranges);
+  const diagnosticsText = formatDiagnostics(document, diagnostics);
+  if (diagnosticsText === undefined) {
+    return undefined;
+  }
   let textForOutput = replacements.text ?? "";
-
-  if (document.languageId === "python") {
-    const firstFenceMatch = templateForOutput.match(/```[^\n]*/);
-    if (firstFenceMatch) {
-      templateForOutput = templateForOutput.replace(firstFenceMatch[0], "```python");
-    } else if (options.autoWrapPythonWithoutFence) {
-      textForOutput = wrapPythonCodeBlock(textForOutput);
+  if (getConfiguration<boolean>("inlineDiagnostics", document)) {
+    textForOutput = inlineDiagnosticComments(document, textForOutput, diagnostics);
+  }
+  const fence = getSafeFence(textForOutput);
+  let templateForOutput = widenTemplateFences(template, fence);
+  let openingFence = `${fence}${fenceLanguage}`;
+
+  // Tag the template's first bare fence with the document's fence language.
+  const firstFenceMatch = templateForOutput.match(/`{3,}[^\n]*/);
+  if (firstFenceMatch) {
+    const fenceTicks = firstFenceMatch[0].match(/^`+/)?.[0] ?? fence;
+    openingFence = `${fenceTicks}${fenceLanguage}`;
+    if (firstFenceMatch[0].trim() === fenceTicks) {
+      templateForOutput = templateForOutput.replace(
+        firstFenceMatch[0],
+        openingFence
+      );
     }
+  } else if (fenceStyle === "aboveRange" && options.autoWrapWithoutFence) {
+    textForOutput = wrapCodeBlock(textForOutput, fenceLanguage, fence);
+  }
 
+  try {
     const formatted = formatString(templateForOutput, {
+      languageId: document.languageId,
+      fenceLanguage,
+      imports: "",
+      ...getGitReplacements(
+        templateForOutput,
+        document.uri,
+        getPermalinkLines(options.ranges)
+      ),
+      diagnostics: diagnosticsText,
       ...replacements,
       text: textForOutput,
     });
-    return movePythonFenceAboveRangeLine(formatted, replacements.range);
+    if (fenceStyle === "aboveRange") {
+      return moveFenceAboveRangeLine(
+        formatted,
+        openingFence,
+        replacements.range
+      );
+    }
+    return formatted;
+  } catch (error) {
+    return reportTemplateError("template", error);
+  }
+}
+
+/** 1-based lines spanned by `ranges`, for the `{permalink}` anchor. */
+function getPermalinkLines(
+  ranges?: readonly vscode.Range[]
+): PermalinkLines | undefined {
+  if (!ranges || ranges.length === 0) {
+    return undefined;
   }
+  // A selection ending at the start of a line does not include that line.
+  const endLines = ranges.map((range) =>
+    range.end.character === 0 && range.end.line > range.start.line
+      ? range.end.line - 1
+      : range.end.line
+  );
+  return {
+    startLine: Math.min(...ranges.map((range) => range.start.line)) + 1,
+    endLine: Math.max(...endLines) + 1,
+  };
+}
 
-  return formatString(templateForOutput, {
-    ...replacements,
-    text: textForOutput,
-  });
+/**
+ * Fills `{gitBranch}`, `{gitCommit}`, `{gitShortCommit}` and `{permalink}`
+ * from the `.git` directory of the repository containing `uri`, without
+ * running git. All values are empty outside a repository.
+ */
+/**
+ * `.git` reads shared by the snippets of one command, such as the files of
+ * "Copy Files". It is dropped once it is older than a command takes to run,
+ * so later commands see new commits and branch switches.
+ */
+let gitMetadataCache: { createdAt: number; byRoot: GitMetadataCache } = {
+  createdAt: 0,
+  byRoot: new Map(),
+};
+const GIT_METADATA_CACHE_MS = 2000;
+
+function getGitMetadataCache(): GitMetadataCache {
+  const now = Date.now();
+  if (now - gitMetadataCache.createdAt > GIT_METADATA_CACHE_MS) {
+    gitMetadataCache = { createdAt: now, byRoot: new Map() };
+  }
+  return gitMetadataCache.byRoot;
+}
+
+function usesGitPlaceholders(template: string): boolean {
+  return /\b(?:gitBranch|gitCommit|gitShortCommit|permalink)\b/.test(template);
+}
+
+/**
+ * Values of the git placeholders for `uri`. `.git` is only read when
+ * `template` refers to one of them; otherwise no values are returned.
+ */
+function getGitReplacements(
+  template: string,
+  uri: vscode.Uri,
+  lines?: PermalinkLines
+): { [key in ReplacementKey]?: string } {
+  if (!usesGitPlaceholders(template)) {
+    return {};
+  }
+  const metadata =
+    uri.scheme === "file"
+      ? readGitMetadata(uri.fsPath, getGitMetadataCache())
+      : undefined;
+  if (!metadata) {
+    return { gitBranch: "", gitCommit: "", gitShortCommit: "", permalink: "" };
+  }
+
+  return {
+    gitBranch: metadata.branch,
+    gitCommit: metadata.commit,
+    gitShortCommit: metadata.commit.slice(0, 7),
+    permalink: metadata.remoteUrl
+      ? buildPermalink(
+          metadata.remoteUrl,
+          metadata.commit,
+          path.relative(metadata.root, uri.fsPath),
+          lines,
+          getConfiguration<{ [host: string]: GitHostType }>("permalinkHosts", uri)
+        )
+      : "",
+  };
+}
+
+/**
+ * Diagnostics of `document` on the lines spanned by `ranges` (the whole file
+ * when omitted) that are at least as severe as `diagnosticSeverity`, in
+ * document order.
+ */
+function getDiagnosticsInRanges(
+  document: vscode.TextDocument,
+  ranges?: readonly vscode.Range[]
+): vscode.Diagnostic[] {
+  const minimumSeverity =
+    DIAGNOSTIC_SEVERITIES[
+      getConfiguration<DiagnosticSeverityName>("diagnosticSeverity", document) ??
+        "warning"
+    ] ?? vscode.DiagnosticSeverity.Warning;
+  return vscode.languages
+    .getDiagnostics(document.uri)
+    .filter(
+      (diagnostic) =>
+        diagnostic.severity <= minimumSeverity &&
+        (!ranges ||
+          ranges.some((range) =>
+            lineRangesOverlap(
+              diagnostic.range.start.line,
+              diagnostic.range.end.line,
+              range.start.line,
+              range.end.line
+            )
+          ))
+    )
+    .sort((a, b) => comparePositions(a.range.start, b.range.start));
+}
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string {
+  const code =
+    typeof diagnostic.code === "object" ? diagnostic.code.value : diagnostic.code;
+  return code === undefined ? "" : code.toString();
+}
+
+function getDiagnosticMessage(diagnostic: vscode.Diagnostic): string {
+  return diagnostic.message.replace(/\s*\n\s*/g, " ").trim();
+}
+
+/**
+ * Renders each diagnostic with `diagnosticTemplate`, one per line. Line
+ * numbers are 1-based and relative to the file.
+ */
+function formatDiagnostics(
+  document: vscode.TextDocument,
+  diagnostics: vscode.Diagnostic[]
+): string | undefined {
+  const template =
+    getConfiguration("diagnosticTemplate", document) ?? DEFAULT_DIAGNOSTIC_TEMPLATE;
+  try {
+    return diagnostics
+      .map((diagnostic) =>
+        renderTemplate(template, {
+          severity: vscode.DiagnosticSeverity[diagnostic.severity],
+          source: diagnostic.source ?? "",
+          code: getDiagnosticCode(diagnostic),
+          line: (diagnostic.range.start.line + 1).toString(),
+          column: (diagnostic.range.start.character + 1).toString(),
+          message: getDiagnosticMessage(diagnostic),
+        })
+      )
+      .join("\n");
+  } catch (error) {
+    return reportTemplateError("diagnosticTemplate", error);
+  }
+}
+
+/**
+ * Appends diagnostics as trailing comments to the lines they start on.
+ * `text` holds document lines in order, possibly dedented and interleaved
+ * with parent headers or omission markers, so each line is located by its
+ * trimmed content after the previous match.
+ */
+function inlineDiagnosticComments(
+  document: vscode.TextDocument,
+  text: string,
+  diagnostics: vscode.Diagnostic[]
+): string {
+  const messagesByLine = new Map<number, string[]>();
+  for (const diagnostic of diagnostics) {
+    const line = diagnostic.range.start.line;
+    const messages = messagesByLine.get(line) ?? [];
+    messages.push(
+      `${vscode.DiagnosticSeverity[diagnostic.severity]}: ${getDiagnosticMessage(diagnostic)}`
+    );
+    messagesByLine.set(line, messages);
+  }
+
+  const syntax = COMMENT_SYNTAXES[document.languageId] ?? DEFAULT_COMMENT_SYNTAX;
+  const lines = text.split("\n");
+  let searchStart = 0;
+  for (const [line, messages] of messagesByLine) {
+    const content = document.lineAt(line).text.trim();
+    const index = content
+      ? lines.findIndex(
+          (candidate, candidateIndex) =>
+            candidateIndex >= searchStart && candidate.trim() === content
+        )
+      : -1;
+    if (index === -1) {
+      continue;
+    }
+    const suffix = syntax.suffix ? ` ${syntax.suffix}` : "";
+    lines[index] = `${lines[index].trimEnd()}  ${syntax.prefix} ${messages.join("; ")}${suffix}`;
+    searchStart = index + 1;
+  }
+  return lines.join("\n");
 }
 
 export function removeRootIndentation(text: string): string {
@@ -191,6 +922,18 @@ export function getActiveEditor(): vscode.TextEditor | undefined {
   return editor;
 }
 
+/** Like `getActiveEditor`, but refuses documents matched by `denyGlobs`. */
+function getActiveEditorForCopy(): vscode.TextEditor | undefined {
+  const editor = getActiveEditor();
+  if (editor && isDeniedForCopy(editor.document.uri)) {
+    vscode.window.showWarningMessage(
+      `Copying ${vscode.workspace.asRelativePath(editor.document.uri)} is blocked by copy-paste-template.denyGlobs`
+    );
+    return undefined;
+  }
+  return editor;
+}
+
 export function activate(context: vscode.ExtensionContext) {
   console.log('Extension "copy-paste-template" is now active!');
   context.subscriptions.push(
@@ -214,71 +957,422 @@ export function activate(context: vscode.ExtensionContext) {
       copyFunctionDefinitionWithParents
     )
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyClassOutline",
+      copyClassOutline
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyFileOutline",
+      copyFileOutline
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyFunctionWithDependencies",
+      copyFunctionWithDependencies
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyFunctionWithCallers",
+      copyFunctionWithCallers
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyFunctionWithReferencedTypes",
+      copyFunctionWithReferencedTypes
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyWithProblems",
+      copyWithProblems
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyWorkingChanges",
+      copyWorkingChanges
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyStagedChanges",
+      copyStagedChanges
+    )
+  );
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "copy-paste-template.copyFunctionQualifiedName",
       copyFunctionQualifiedName
     )
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyLocation",
+      copyLocation
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "copy-paste-template.copyWithProfile",
+      copyWithProfile
+    )
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("copy-paste-template.copyFiles", copyFiles)
+  );
+  registerContextBasket(context);
+  registerSymbolCache(context);
+
+  tokenStatusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    100
+  );
+  context.subscriptions.push(tokenStatusBarItem);
 }
 
-export async function copySelection() {
-  const editor = getActiveEditor();
+export async function copySelection(profileArg?: unknown) {
+  await copySnippet(await formatSelectionSnippet(profileArg));
+}
+
+export async function formatSelectionSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
   if (!editor) {
     return;
   }
 
-  const { document, selection } = editor;
-  const selectedText = document.getText(selection);
+  const { document } = editor;
+  const selections = getSelectionsInDocumentOrder(editor);
   const symbols = await getDocumentSymbols(document);
-  const functionMatch = resolveFunctionMatchForSelection(
+  const shouldRemoveRootIndentation = getProfileSetting<boolean>(
+    "removeRootIndentation",
+    profile,
+    document
+  );
+  const textWithParents = composeSelectionsText(
     document,
     symbols,
-    selection
+    selections,
+    shouldRemoveRootIndentation
   );
-  const selectedTextForOutput = functionMatch
-    ? selectedText
-    : getConfiguration("removeRootIndentation")
-      ? removeRootIndentation(selectedText)
-      : selectedText;
-  const omission = functionMatch
-    ? computeFunctionSelectionOmission(document, functionMatch, selection)
-    : undefined;
-  const textWithParents = functionMatch
-    ? composeSelectionWithParentsText(
-        document,
-        functionMatch,
-        selectedTextForOutput,
-        omission
-      )
-    : selectedTextForOutput;
 
   const replacements: { [key in ReplacementKey]?: string } = {
     filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
-    range: formatTemplate("rangeTemplate", {
-      startLine: (selection.start.line + 1).toString(),
-      startChar: (selection.start.character + 1).toString(),
-      endLine: (selection.end.line + 1).toString(),
-      endChar: (selection.end.character + 1).toString(),
-    }),
+    range: formatRangeList(selections, profile, document),
     text: textWithParents,
   };
 
-  const formattedText = formatFunctionContentTemplate(document, replacements, {
-    autoWrapPythonWithoutFence: false,
-  });
-  if (formattedText) {
-    await writeClipboardText(formattedText);
-  }
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    { autoWrapWithoutFence: false, ranges: selections },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements, () =>
+    formatSignaturesSnippet(document, selections, profile)
+  );
 }
 
-function isDocumentSymbol(
-  symbol: vscode.DocumentSymbol | vscode.SymbolInformation
-): symbol is vscode.DocumentSymbol {
-  return "children" in symbol;
+function toFormattedSnippet(
+  formattedText: string | undefined,
+  replacements: { [key in ReplacementKey]?: string },
+  formatSignatures?: () => Promise<FormattedSnippet | undefined>
+): FormattedSnippet | undefined {
+  if (!formattedText) {
+    return undefined;
+  }
+  return {
+    text: formattedText,
+    label: `${replacements.filePath ?? ""}${replacements.range ?? ""}`,
+    formatSignatures,
+  };
 }
 
-function isSymbolInformation(
+function getSelectionsInDocumentOrder(
+  editor: vscode.TextEditor
+): vscode.Selection[] {
+  const selections =
+    editor.selections && editor.selections.length > 0
+      ? editor.selections
+      : [editor.selection];
+  const nonEmptySelections = selections.filter(
+    (selection) => !selection.isEmpty
+  );
+  const orderedSelections =
+    nonEmptySelections.length > 0 ? nonEmptySelections : [editor.selection];
+  return [...orderedSelections].sort((a, b) =>
+    comparePositions(a.start, b.start)
+  );
+}
+
+function getRangeReplacements(range: vscode.Range): {
+  [key in ReplacementKey]?: string;
+} {
+  return {
+    startLine: (range.start.line + 1).toString(),
+    startChar: (range.start.character + 1).toString(),
+    endLine: (range.end.line + 1).toString(),
+    endChar: (range.end.character + 1).toString(),
+  };
+}
+
+/**
+ * Formats each range with `rangeTemplate` and joins them with
+ * `rangeSeparator`. Literal text before the first placeholder of the range
+ * template (the leading `:` by default) is written only once.
+ */
+export function formatRangeList(
+  ranges: readonly vscode.Range[],
+  profile?: TemplateProfile,
+  scope?: vscode.ConfigurationScope
+): string | undefined {
+  const template = getProfileSetting<string>("rangeTemplate", profile, scope);
+  if (!template) {
+    vscode.window.showInformationMessage("No template found for rangeTemplate");
+    return undefined;
+  }
+
+  const separator = getConfiguration<string>("rangeSeparator", scope) ?? ",";
+  const leadingText = template.match(/^[^{\\]*/)?.[0] ?? "";
+  try {
+    return ranges
+      .map((range, index) => {
+        const formatted = formatString(template, getRangeReplacements(range));
+        return index > 0 && leadingText && formatted.startsWith(leadingText)
+          ? formatted.slice(leadingText.length)
+          : formatted;
+      })
+      .join(separator);
+  } catch (error) {
+    return reportTemplateError("rangeTemplate", error);
+  }
+}
+
+function composeSelectionsText(
+  document: vscode.TextDocument,
+  symbols: vscode.DocumentSymbol[],
+  selections: vscode.Selection[],
+  shouldRemoveRootIndentation?: boolean
+): string {
+  return selections.length === 1
+    ? composeSingleSelectionText(
+        document,
+        symbols,
+        selections[0],
+        shouldRemoveRootIndentation
+      )
+    : composeMultiSelectionText(
+        document,
+        symbols,
+        selections,
+        shouldRemoveRootIndentation
+      );
+}
+
+function composeSingleSelectionText(
+  document: vscode.TextDocument,
+  symbols: vscode.DocumentSymbol[],
+  selection: vscode.Selection,
+  shouldRemoveRootIndentation?: boolean
+): string {
+  const selectedText = document.getText(selection);
+  const functionMatch = resolveFunctionMatchForSelection(
+    document,
+    symbols,
+    selection
+  );
+  if (!functionMatch) {
+    return shouldRemoveRootIndentation
+      ? removeRootIndentation(selectedText)
+      : selectedText;
+  }
+
+  const omission = computeFunctionSelectionOmission(
+    document,
+    functionMatch,
+    selection
+  );
+  return composeSelectionWithParentsText(
+    document,
+    functionMatch,
+    selectedText,
+    omission
+  );
+}
+
+type SelectionGroupLayout = {
+  functionMatch?: FunctionSymbolMatch;
+  selections: vscode.Selection[];
+  chain: vscode.DocumentSymbol[];
+  definitionBlocks: DefinitionBlock[];
+  revisitsFunction: boolean;
+  firstLine: number;
+};
+
+function countSharedAncestors(
+  a: vscode.DocumentSymbol[],
+  b: vscode.DocumentSymbol[]
+): number {
+  let shared = 0;
+  while (shared < a.length && shared < b.length && a[shared] === b[shared]) {
+    shared += 1;
+  }
+  return shared;
+}
+
+function layoutSelectionGroups(
+  document: vscode.TextDocument,
+  symbols: vscode.DocumentSymbol[],
+  selections: vscode.Selection[]
+): SelectionGroupLayout[] {
+  const groups: {
+    functionMatch?: FunctionSymbolMatch;
+    selections: vscode.Selection[];
+  }[] = [];
+  for (const selection of selections) {
+    const functionMatch = resolveFunctionMatchForSelection(
+      document,
+      symbols,
+      selection
+    );
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup && lastGroup.functionMatch?.symbol === functionMatch?.symbol) {
+      lastGroup.selections.push(selection);
+    } else {
+      groups.push({ functionMatch, selections: [selection] });
+    }
+  }
+
+  const layouts: SelectionGroupLayout[] = [];
+  for (const group of groups) {
+    const chain = group.functionMatch
+      ? [...group.functionMatch.ancestors, group.functionMatch.symbol]
+      : [];
+    const previousChain = layouts[layouts.length - 1]?.chain ?? [];
+    const shared = countSharedAncestors(previousChain, chain);
+    const definitionBlocks = chain
+      .slice(shared)
+      .map((symbol) => extractDefinitionBlock(document, symbol));
+    layouts.push({
+      ...group,
+      chain,
+      definitionBlocks,
+      revisitsFunction: chain.length > 0 && shared === chain.length,
+      firstLine:
+        definitionBlocks[0]?.startLine ?? group.selections[0].start.line,
+    });
+  }
+  return layouts;
+}
+
+/**
+ * Composes several selections into one snippet. Selections are grouped by
+ * their enclosing function; parent definition blocks shared with the previous
+ * group are written once, and an omission marker comment stands in for code
+ * omitted between pieces.
+ */
+function composeMultiSelectionText(
+  document: vscode.TextDocument,
+  symbols: vscode.DocumentSymbol[],
+  selections: vscode.Selection[],
+  shouldRemoveRootIndentation?: boolean
+): string {
+  const layouts = layoutSelectionGroups(document, symbols, selections);
+  const parts: string[] = [];
+  let coveredLine: number | undefined;
+
+  const pushOmissionIfNeeded = (
+    startLine: number,
+    endLine: number,
+    indent: string
+  ) => {
+    if (hasSignificantCodeLineInRange(document, startLine, endLine)) {
+      parts.push(formatOmissionMarker(document, indent, endLine - startLine + 1));
+    }
+  };
+
+  layouts.forEach((layout, index) => {
+    const nextLayout = layouts[index + 1];
+
+    if (layout.definitionBlocks.length > 0) {
+      if (coveredLine !== undefined) {
+        pushOmissionIfNeeded(
+          coveredLine + 1,
+          layout.firstLine - 1,
+          getLineIndent(document.lineAt(layout.firstLine).text)
+        );
+      }
+      parts.push(layout.definitionBlocks.map((block) => block.text).join("\n"));
+    }
+
+    let cursorLine =
+      coveredLine === undefined ? undefined : coveredLine + 1;
+    if (layout.functionMatch && !layout.revisitsFunction) {
+      const definitionBlock = extractDefinitionBlock(
+        document,
+        layout.functionMatch.symbol
+      );
+      cursorLine = Math.max(
+        cursorLine ?? 0,
+        definitionBlock.endLine + 1,
+        layout.functionMatch.symbol.range.start.line + 1
+      );
+    }
+
+    for (const selection of layout.selections) {
+      if (cursorLine !== undefined) {
+        pushOmissionIfNeeded(
+          cursorLine,
+          selection.start.line - 1,
+          findFirstSelectedNonEmptyLineIndent(document, selection)
+        );
+      }
+      parts.push(document.getText(selection));
+      cursorLine = selection.end.line + 1;
+    }
+
+    const lastSelection = layout.selections[layout.selections.length - 1];
+    coveredLine = lastSelection.end.line;
+    if (layout.functionMatch) {
+      const suffixEndLine = Math.min(
+        getFunctionBodyEndLine(document, layout.functionMatch),
+        (nextLayout?.firstLine ?? document.lineCount) - 1
+      );
+      pushOmissionIfNeeded(
+        coveredLine + 1,
+        suffixEndLine,
+        findLastSelectedNonEmptyLineIndent(document, lastSelection)
+      );
+      coveredLine = Math.max(coveredLine, suffixEndLine);
+    }
+  });
+
+  const text = parts.join("\n");
+  const hasFunctionMatch = layouts.some((layout) => layout.functionMatch);
+  return !hasFunctionMatch && shouldRemoveRootIndentation
+    ? removeRootIndentation(text)
+    : text;
+}
+
+function isDocumentSymbol(
+  symbol: vscode.DocumentSymbol | vscode.SymbolInformation
+): symbol is vscode.DocumentSymbol {
+  return "children" in symbol;
+}
+
+function isSymbolInformation(
   symbol: vscode.DocumentSymbol | vscode.SymbolInformation
 ): symbol is vscode.SymbolInformation {
   return "location" in symbol;
@@ -349,7 +1443,7 @@ function convertSymbolInformationToDocumentSymbols(
   return roots;
 }
 
-export async function getDocumentSymbols(
+async function requestProviderDocumentSymbols(
   document: vscode.TextDocument
 ): Promise<vscode.DocumentSymbol[]> {
   const symbols = await vscode.commands.executeCommand<
@@ -371,6 +1465,116 @@ export async function getDocumentSymbols(
   return [];
 }
 
+function delay(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Polls the symbol provider with exponential backoff until it returns
+ * symbols or `deadline` passes, showing progress in the status bar.
+ */
+function waitForProviderDocumentSymbols(
+  document: vscode.TextDocument,
+  deadline: number
+): Thenable<vscode.DocumentSymbol[]> {
+  const initialDelay =
+    getConfiguration<number>("symbolProviderRetryDelay", document) ??
+    DEFAULT_SYMBOL_PROVIDER_RETRY_DELAY;
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: "Waiting for document symbols",
+    },
+    async () => {
+      for (let retryDelay = Math.max(1, initialDelay); ; retryDelay *= 2) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          return [];
+        }
+        await delay(Math.min(retryDelay, remaining));
+        const symbols = await requestProviderDocumentSymbols(document);
+        if (symbols.length > 0) {
+          return symbols;
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Returns the provider's symbols, cached per document version. Language
+ * servers often return nothing right after a document opens (or the window
+ * starts), so empty results are retried until `symbolProviderTimeout` has
+ * passed since then. Empty results are not cached.
+ */
+async function getProviderDocumentSymbols(
+  document: vscode.TextDocument
+): Promise<vscode.DocumentSymbol[]> {
+  const key = document.uri.toString();
+  const cached = symbolCache.get(key);
+  if (cached && cached.version === document.version) {
+    return cached.symbols;
+  }
+
+  let symbols = await requestProviderDocumentSymbols(document);
+  const readySince = documentOpenTimes.get(key) ?? activationTime;
+  if (symbols.length === 0 && readySince !== undefined) {
+    const timeout =
+      getConfiguration<number>("symbolProviderTimeout", document) ??
+      DEFAULT_SYMBOL_PROVIDER_TIMEOUT;
+    const deadline = readySince + timeout;
+    if (Date.now() < deadline) {
+      symbols = await waitForProviderDocumentSymbols(document, deadline);
+    }
+  }
+
+  if (symbols.length > 0) {
+    symbolCache.set(key, { version: document.version, symbols });
+  }
+  return symbols;
+}
+
+function registerSymbolCache(context: vscode.ExtensionContext) {
+  activationTime = Date.now();
+  context.subscriptions.push(
+    vscode.workspace.onDidOpenTextDocument((document) => {
+      documentOpenTimes.set(document.uri.toString(), Date.now());
+    }),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      symbolCache.delete(document.uri.toString());
+      documentOpenTimes.delete(document.uri.toString());
+    })
+  );
+}
+
+export function __resetSymbolCacheForTests(activatedAt?: number): void {
+  symbolCache.clear();
+  documentOpenTimes.clear();
+  activationTime = activatedAt;
+}
+
+/**
+ * Returns the document's symbol tree. Depending on the `symbolSource`
+ * setting it comes from the language's symbol provider, from the built-in
+ * indentation outliner, or from the provider with the outliner as a fallback
+ * when the provider returns nothing.
+ */
+export async function getDocumentSymbols(
+  document: vscode.TextDocument
+): Promise<vscode.DocumentSymbol[]> {
+  const symbolSource =
+    getConfiguration<SymbolSource>("symbolSource", document) ?? "both";
+  if (symbolSource === "fallback") {
+    return outlineDocument(document);
+  }
+
+  const symbols = await getProviderDocumentSymbols(document);
+  if (symbols.length === 0 && symbolSource === "both") {
+    return outlineDocument(document);
+  }
+  return symbols;
+}
+
 function isNarrowerRange(a: vscode.Range, b: vscode.Range): boolean {
   if (a.start.isAfter(b.start)) {
     return true;
@@ -390,6 +1594,29 @@ function isNarrowerRange(a: vscode.Range, b: vscode.Range): boolean {
 export function findInnermostFunctionSymbolAtPosition(
   symbols: vscode.DocumentSymbol[],
   position: vscode.Position
+): FunctionSymbolMatch | undefined {
+  return findInnermostSymbolOfKindsAtPosition(
+    symbols,
+    position,
+    FUNCTION_SYMBOL_KINDS
+  );
+}
+
+export function findInnermostClassSymbolAtPosition(
+  symbols: vscode.DocumentSymbol[],
+  position: vscode.Position
+): FunctionSymbolMatch | undefined {
+  return findInnermostSymbolOfKindsAtPosition(
+    symbols,
+    position,
+    CLASS_SYMBOL_KINDS
+  );
+}
+
+function findInnermostSymbolOfKindsAtPosition(
+  symbols: vscode.DocumentSymbol[],
+  position: vscode.Position,
+  kinds: Set<vscode.SymbolKind>
 ): FunctionSymbolMatch | undefined {
   let bestMatch: FunctionSymbolMatch | undefined;
 
@@ -401,7 +1628,7 @@ export function findInnermostFunctionSymbolAtPosition(
       return;
     }
 
-    if (FUNCTION_SYMBOL_KINDS.has(symbol.kind)) {
+    if (kinds.has(symbol.kind)) {
       const candidate: FunctionSymbolMatch = { symbol, ancestors };
       if (
         !bestMatch ||
@@ -484,17 +1711,32 @@ export function composeFunctionWithParentsText(
   ancestors: vscode.DocumentSymbol[],
   fnSymbol: vscode.DocumentSymbol
 ): string {
-  const ancestorHeaders = ancestors.map((ancestor) =>
-    extractDefinitionHeaderLine(document, ancestor)
-  );
   const functionRange = getCopyRangeForFunctionSymbol(document, fnSymbol);
   const functionText = getTextByRange(document, functionRange);
 
-  if (ancestorHeaders.length === 0) {
-    return functionText;
-  }
+  const parts: string[] = [];
+  ancestors.forEach((ancestor, index) => {
+    parts.push(extractDefinitionHeaderLine(document, ancestor));
+
+    // Mark code skipped between this header and the next header or the body.
+    const headerLine = getDefinitionLineNumber(ancestor);
+    const nextLine =
+      index + 1 < ancestors.length
+        ? getDefinitionLineNumber(ancestors[index + 1])
+        : functionRange.start.line;
+    if (hasSignificantCodeLineInRange(document, headerLine + 1, nextLine - 1)) {
+      parts.push(
+        formatOmissionMarker(
+          document,
+          getLineIndent(document.lineAt(nextLine).text),
+          nextLine - headerLine - 1
+        )
+      );
+    }
+  });
+  parts.push(functionText);
 
-  return `${ancestorHeaders.join("\n")}\n${functionText}`;
+  return parts.join("\n");
 }
 
 export function composeSelectionWithParentsText(
@@ -514,16 +1756,43 @@ export function composeSelectionWithParentsText(
   const parts = [parentDefinitionBlocks.join("\n")];
 
   if (omission?.hasPrefixOmission) {
-    parts.push(`${omission.prefixIndent}# ......`);
+    parts.push(
+      formatOmissionMarker(document, omission.prefixIndent, omission.prefixLineCount)
+    );
   }
   parts.push(selectedText);
   if (omission?.hasSuffixOmission) {
-    parts.push(`${omission.suffixIndent}# ......`);
+    parts.push(
+      formatOmissionMarker(document, omission.suffixIndent, omission.suffixLineCount)
+    );
   }
 
   return parts.join("\n");
 }
 
+/**
+ * Formats the marker for omitted lines as a comment in the document's
+ * language, e.g. `    // ......` or `<!-- ...... -->`. The marker text comes
+ * from the `omissionMarker` setting, which may use `{count}`.
+ */
+export function formatOmissionMarker(
+  document: vscode.TextDocument,
+  indent: string,
+  omittedLineCount: number
+): string {
+  const syntax = COMMENT_SYNTAXES[document.languageId] ?? DEFAULT_COMMENT_SYNTAX;
+  const template =
+    getConfiguration("omissionMarker", document) ?? DEFAULT_OMISSION_MARKER;
+  let marker: string;
+  try {
+    marker = renderTemplate(template, { count: omittedLineCount.toString() });
+  } catch (error) {
+    reportTemplateError("omissionMarker", error);
+    marker = DEFAULT_OMISSION_MARKER;
+  }
+  return `${indent}${syntax.prefix} ${marker}${syntax.suffix ? ` ${syntax.suffix}` : ""}`;
+}
+
 function isStructuralOnlyLine(text: string): boolean {
   const trimmed = text.trim();
   if (trimmed.length === 0) {
@@ -612,6 +1881,8 @@ function computeFunctionSelectionOmission(
     hasSuffixOmission,
     prefixIndent: findFirstSelectedNonEmptyLineIndent(document, selection),
     suffixIndent: findLastSelectedNonEmptyLineIndent(document, selection),
+    prefixLineCount: selectionStartLine - bodyStartLine,
+    suffixLineCount: bodyEndLine - selectionEndLine,
   };
 }
 
@@ -757,6 +2028,195 @@ export function composeQualifiedFunctionName(
     .join(".");
 }
 
+function isQualifiedNameStyle(value: unknown): value is QualifiedNameStyle {
+  return typeof value === "string" && value in QUALIFIED_NAME_STYLE_LABELS;
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Dotted module path of a Python file: its stem, preceded by every enclosing
+ * directory that is a package (has `__init__.py`), up to the workspace folder.
+ */
+async function getPythonModulePath(uri: vscode.Uri): Promise<string[]> {
+  const stem = path.basename(uri.fsPath).replace(/\.pyi?$/, "");
+  const segments = stem === "__init__" ? [] : [stem];
+  const rootPath = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+  let directory = path.dirname(uri.fsPath);
+  while (await fileExists(vscode.Uri.file(path.join(directory, "__init__.py")))) {
+    segments.unshift(path.basename(directory));
+    const parent = path.dirname(directory);
+    if (directory === rootPath || parent === directory) {
+      break;
+    }
+    directory = parent;
+  }
+  return segments;
+}
+
+/**
+ * Module path of a Rust file inside its crate: `crate` followed by the
+ * directories and stem under the `src` folder next to the nearest
+ * `Cargo.toml`. Crate roots (`lib.rs`, `main.rs`, binaries, tests and
+ * examples) are just `crate`, and `mod.rs` takes its directory's name.
+ */
+async function getRustModulePath(uri: vscode.Uri): Promise<string[]> {
+  let directory = path.dirname(uri.fsPath);
+  while (!(await fileExists(vscode.Uri.file(path.join(directory, "Cargo.toml"))))) {
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return ["crate"];
+    }
+    directory = parent;
+  }
+
+  const relativePath = path.relative(path.join(directory, "src"), uri.fsPath);
+  const segments = relativePath.replace(/\.rs$/, "").split(path.sep);
+  if (segments[0] === ".." || segments[0] === "bin" || segments.length === 0) {
+    return ["crate"];
+  }
+  if (segments.length === 1 && (segments[0] === "lib" || segments[0] === "main")) {
+    return ["crate"];
+  }
+  if (segments[segments.length - 1] === "mod") {
+    segments.pop();
+  }
+  return ["crate", ...segments];
+}
+
+/** Reads the `package` declaration of a Java or Kotlin file. */
+function getJavaPackageName(document: vscode.TextDocument): string {
+  return /^\s*package\s+([\w.]+)/m.exec(document.getText())?.[1] ?? "";
+}
+
+/**
+ * Type name of a Rust `impl` block, e.g. `Outer` for
+ * `impl<T: Clone> Display for Outer<T>`; other names pass through.
+ */
+function getRustSegmentName(name: string): string {
+  const impl = /^impl\b(?:\s*<.*?>)?\s+(?:.*?\s+for\s+)?([\w:]+)/.exec(name);
+  return impl ? impl[1] : name;
+}
+
+/** Name without a parameter list, e.g. `run` for jdtls' `run(String)`. */
+function stripParameterList(name: string): string {
+  return name.replace(/\s*\(.*$/s, "");
+}
+
+/**
+ * Composes the qualified name of the function in the given style. Scopes
+ * come from the symbol tree; module and package prefixes come from the file
+ * path (Python, Rust) or the `package` declaration (Java, Kotlin).
+ */
+async function composeStyledQualifiedName(
+  document: vscode.TextDocument,
+  functionMatch: FunctionSymbolMatch,
+  style: QualifiedNameStyle
+): Promise<string> {
+  const chain = [...functionMatch.ancestors, functionMatch.symbol];
+  const names = (
+    kinds: Set<vscode.SymbolKind>,
+    rename: (name: string) => string = (name) => name
+  ) =>
+    chain
+      .filter((symbol) => kinds.has(symbol.kind))
+      .map((symbol) => rename(symbol.name.trim()))
+      .filter((name) => name.length > 0 && !name.startsWith("("));
+  const scopedNames = (rename?: (name: string) => string) =>
+    names(new Set([...SCOPE_SYMBOL_KINDS, ...QUALIFIED_NAME_SYMBOL_KINDS]), rename);
+
+  switch (style) {
+    case "local":
+      return composeQualifiedFunctionName(functionMatch);
+    case "python":
+      return [
+        ...(await getPythonModulePath(document.uri)),
+        ...names(QUALIFIED_NAME_SYMBOL_KINDS),
+      ].join(".");
+    case "pytest":
+      return [
+        vscode.workspace.asRelativePath(document.uri, false).replace(/\\/g, "/"),
+        ...names(QUALIFIED_NAME_SYMBOL_KINDS),
+      ].join("::");
+    case "java": {
+      const types = chain
+        .filter((symbol) => SCOPE_SYMBOL_KINDS.has(symbol.kind))
+        .map((symbol) => stripParameterList(symbol.name.trim()));
+      const method = stripParameterList(functionMatch.symbol.name.trim());
+      const owner = [getJavaPackageName(document), ...types]
+        .filter((name) => name.length > 0)
+        .join(".");
+      if (!owner) {
+        return method;
+      }
+      return types.length > 0 ? `${owner}#${method}` : `${owner}.${method}`;
+    }
+    case "rust":
+      return [
+        ...(await getRustModulePath(document.uri)),
+        ...scopedNames(getRustSegmentName),
+      ].join("::");
+    case "cpp":
+      return scopedNames(stripParameterList).join("::");
+  }
+}
+
+type ImportsText = {
+  block: ImportBlock;
+  text: string;
+};
+
+/**
+ * The document's import block for `{imports}`, keeping only the imports used
+ * by `copiedText` when `trimImportsToUsed` is enabled.
+ */
+function getImportsText(
+  document: vscode.TextDocument,
+  copiedText: string
+): ImportsText | undefined {
+  const block = findImportBlock(document);
+  if (!block) {
+    return undefined;
+  }
+  const text = getConfiguration<boolean>("trimImportsToUsed", document)
+    ? filterUsedImports(document, block, copiedText)
+    : getLinesText(document, block.startLine, block.endLine);
+  return { block, text };
+}
+
+/**
+ * Prepends the imports to text copied from `firstLine` onwards when
+ * `includeImports` is enabled, marking the code skipped in between.
+ */
+function prependImports(
+  document: vscode.TextDocument,
+  imports: ImportsText | undefined,
+  text: string,
+  firstLine: number
+): string {
+  if (
+    !getConfiguration<boolean>("includeImports", document) ||
+    !imports ||
+    imports.text.length === 0 ||
+    firstLine <= imports.block.endLine
+  ) {
+    return text;
+  }
+
+  const gapStartLine = imports.block.endLine + 1;
+  const separator = hasSignificantCodeLineInRange(document, gapStartLine, firstLine - 1)
+    ? formatOmissionMarker(document, "", firstLine - gapStartLine)
+    : "";
+  return [imports.text, separator, text].join("\n");
+}
+
 export function getDefinitionLineNumber(symbol: vscode.DocumentSymbol): number {
   if (symbol.selectionRange) {
     return symbol.selectionRange.start.line;
@@ -791,60 +2251,218 @@ function buildSingleLineDefinitionBlock(
   };
 }
 
-function findPythonDefinitionStartLine(
+/**
+ * Finds the first line of an attribute spanning several lines, such as
+ * `@Component({ ... })`, whose last line is `endLine`.
+ */
+function findMultiLineAttributeStart(
   document: vscode.TextDocument,
-  _symbol: vscode.DocumentSymbol,
-  anchorLine: number
-): number {
-  let startLine = anchorLine;
-  while (startLine > 0) {
-    const candidate = document.lineAt(startLine - 1).text.trim();
-    if (!candidate.startsWith("@")) {
-      break;
+  endLine: number,
+  attribute: RegExp
+): number | undefined {
+  const firstCandidateLine = Math.max(0, endLine - MAX_ATTRIBUTE_LINES);
+  for (let line = endLine - 1; line >= firstCandidateLine; line -= 1) {
+    const trimmed = document.lineAt(line).text.trim();
+    if (trimmed.length === 0) {
+      return undefined;
+    }
+    if (!attribute.test(trimmed)) {
+      continue;
+    }
+
+    // The attribute must stay open until `endLine` and close there.
+    let depth = 0;
+    for (let current = line; current <= endLine; current += 1) {
+      depth += countBracketDelta(document.lineAt(current).text);
+      if (current < endLine && depth <= 0) {
+        return undefined;
+      }
     }
-    startLine -= 1;
+    return depth === 0 ? line : undefined;
   }
-  return startLine;
+  return undefined;
 }
 
-function findPythonDefinitionEndLine(
+/**
+ * Walks upward from a definition over its attributes, annotations and
+ * decorators and, when `includeDocComments` is set, its doc comments. Returns
+ * the lines to prepend, in document order. Doc comments are skipped rather
+ * than included when disabled, so attributes above them are still found.
+ */
+function collectLeadingTriviaLines(
   document: vscode.TextDocument,
   anchorLine: number,
-  maxLine: number
-): number {
-  type PythonStringState = {
-    quoteChar?: "'" | '"';
-    tripleQuoted: boolean;
-    escapeNext: boolean;
+  includeDocComments: boolean
+): number[] {
+  const rules = LEADING_TRIVIA_RULES[document.languageId];
+  if (!rules) {
+    return [];
+  }
+
+  const lines: number[] = [];
+  const addLines = (startLine: number, endLine: number, include: boolean) => {
+    if (include) {
+      for (let current = endLine; current >= startLine; current -= 1) {
+        lines.unshift(current);
+      }
+    }
   };
 
-  const scanPythonLine = (
-    lineText: string,
-    currentDepth: number,
-    stringState: PythonStringState
-  ): { depth: number; visibleCode: string } => {
-    let depth = currentDepth;
-    const visibleCodeChars: string[] = [];
+  let line = anchorLine - 1;
+  while (line >= 0) {
+    const trimmed = document.lineAt(line).text.trim();
+    if (trimmed.length === 0) {
+      break;
+    }
 
-    for (let index = 0; index < lineText.length; index += 1) {
-      const char = lineText[index];
+    if (rules.attribute?.test(trimmed)) {
+      addLines(line, line, true);
+      line -= 1;
+      continue;
+    }
 
-      if (stringState.quoteChar) {
-        if (stringState.tripleQuoted) {
-          if (
-            lineText.slice(index, index + 3) ===
-            stringState.quoteChar.repeat(3)
-          ) {
-            stringState.quoteChar = undefined;
-            stringState.tripleQuoted = false;
-            stringState.escapeNext = false;
-            index += 2;
-          }
-          continue;
-        }
+    if (rules.lineDocPrefixes?.some((prefix) => trimmed.startsWith(prefix))) {
+      addLines(line, line, includeDocComments);
+      line -= 1;
+      continue;
+    }
 
-        if (stringState.escapeNext) {
-          stringState.escapeNext = false;
+    if (rules.blockDoc && trimmed.endsWith("*/")) {
+      let openLine = line;
+      while (openLine > 0 && !document.lineAt(openLine).text.includes("/*")) {
+        openLine -= 1;
+      }
+      if (!document.lineAt(openLine).text.trim().startsWith("/**")) {
+        break;
+      }
+      addLines(openLine, line, includeDocComments);
+      line = openLine - 1;
+      continue;
+    }
+
+    const attributeStart = rules.attribute
+      ? findMultiLineAttributeStart(document, line, rules.attribute)
+      : undefined;
+    if (attributeStart === undefined) {
+      break;
+    }
+    addLines(attributeStart, line, true);
+    line = attributeStart - 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Finds the last line of the docstring right after a Python signature. Only
+ * a string literal that is a statement of its own counts; `"a".join(x)` or a
+ * literal followed by more code does not.
+ */
+function findPythonDocstringEndLine(
+  document: vscode.TextDocument,
+  signatureEndLine: number
+): number | undefined {
+  const docstringLine = signatureEndLine + 1;
+  if (docstringLine >= document.lineCount) {
+    return undefined;
+  }
+
+  const text = document.lineAt(docstringLine).text;
+  const match = /^\s*[rRuU]?("""|'''|"|')/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const quote = match[1];
+  const isStatementEnd = (rest: string) => /^\s*(?:#.*)?$/.test(rest);
+  if (quote.length === 1) {
+    const literal = new RegExp(`^(?:[^${quote}\\\\]|\\\\.)*${quote}`).exec(
+      text.slice(match[0].length)
+    );
+    return literal &&
+      isStatementEnd(text.slice(match[0].length + literal[0].length))
+      ? docstringLine
+      : undefined;
+  }
+
+  let line = docstringLine;
+  let searchFrom = match[0].length;
+  for (; line < document.lineCount; line += 1, searchFrom = 0) {
+    const lineText = document.lineAt(line).text;
+    const closeIndex = lineText.indexOf(quote, searchFrom);
+    if (closeIndex !== -1) {
+      return isStatementEnd(lineText.slice(closeIndex + quote.length))
+        ? line
+        : undefined;
+    }
+  }
+  return undefined;
+}
+
+function shouldIncludeDocComments(document: vscode.TextDocument): boolean {
+  return getConfiguration<boolean>("includeDocComments", document) ?? true;
+}
+
+/**
+ * Builds a definition block from the signature lines plus the given leading
+ * trivia lines (which may skip excluded doc comments).
+ */
+function buildDefinitionBlock(
+  document: vscode.TextDocument,
+  leadingLines: number[],
+  signatureStartLine: number,
+  signatureEndLine: number
+): DefinitionBlock {
+  const lineNumbers = [...leadingLines];
+  for (let line = signatureStartLine; line <= signatureEndLine; line += 1) {
+    lineNumbers.push(line);
+  }
+
+  const lines = lineNumbers.map((line) => document.lineAt(line).text.trimEnd());
+  const startLine = lineNumbers[0];
+  const endLine = lineNumbers[lineNumbers.length - 1];
+  const endChar = lines[lines.length - 1]?.length || 0;
+  return { text: lines.join("\n"), startLine, startChar: 0, endLine, endChar };
+}
+
+function findPythonDefinitionEndLine(
+  document: vscode.TextDocument,
+  anchorLine: number,
+  maxLine: number
+): number {
+  type PythonStringState = {
+    quoteChar?: "'" | '"';
+    tripleQuoted: boolean;
+    escapeNext: boolean;
+  };
+
+  const scanPythonLine = (
+    lineText: string,
+    currentDepth: number,
+    stringState: PythonStringState
+  ): { depth: number; visibleCode: string } => {
+    let depth = currentDepth;
+    const visibleCodeChars: string[] = [];
+
+    for (let index = 0; index < lineText.length; index += 1) {
+      const char = lineText[index];
+
+      if (stringState.quoteChar) {
+        if (stringState.tripleQuoted) {
+          if (
+            lineText.slice(index, index + 3) ===
+            stringState.quoteChar.repeat(3)
+          ) {
+            stringState.quoteChar = undefined;
+            stringState.tripleQuoted = false;
+            stringState.escapeNext = false;
+            index += 2;
+          }
+          continue;
+        }
+
+        if (stringState.escapeNext) {
+          stringState.escapeNext = false;
           continue;
         }
 
@@ -941,33 +2559,181 @@ function findPythonDefinitionEndLine(
 
 function extractPythonDefinitionBlock(
   document: vscode.TextDocument,
-  symbol: vscode.DocumentSymbol
+  symbol: vscode.DocumentSymbol,
+  options: DefinitionBlockOptions
 ): DefinitionBlock {
   const anchorLine = getDefinitionLineNumber(symbol);
   const maxLine = Math.min(symbol.range.end.line, document.lineCount - 1);
-  const startLine = findPythonDefinitionStartLine(document, symbol, anchorLine);
-  const endLine = findPythonDefinitionEndLine(document, anchorLine, maxLine);
+  const includeDocComments = shouldIncludeDocComments(document);
+  const leadingLines = collectLeadingTriviaLines(
+    document,
+    anchorLine,
+    includeDocComments
+  );
+  const signatureEndLine = findPythonDefinitionEndLine(document, anchorLine, maxLine);
+  const endLine =
+    (includeDocComments && options.includeDocstring
+      ? findPythonDocstringEndLine(document, signatureEndLine)
+      : undefined) ?? signatureEndLine;
+
+  const block = buildDefinitionBlock(document, leadingLines, anchorLine, endLine);
+  if (block.text.trim().length > 0) {
+    return block;
+  }
 
-  const lines: string[] = [];
-  for (let line = startLine; line <= endLine; line += 1) {
-    lines.push(document.lineAt(line).text.trimEnd());
+  return buildSingleLineDefinitionBlock(document, symbol);
+}
+
+/**
+ * Finds the line holding the opening `{` of a C-family definition (or the `;`
+ * ending a body-less declaration), skipping brackets inside strings, template
+ * literals, character literals and comments. Returns `undefined` when the
+ * signature does not close within `maxLine`.
+ */
+function findBraceDefinitionEndLine(
+  document: vscode.TextDocument,
+  anchorLine: number,
+  maxLine: number
+): number | undefined {
+  type BraceScanState =
+    | { kind: "code"; interpolationDepth?: number }
+    | { kind: "blockComment" }
+    | { kind: "string"; quote: string; escapes: boolean; interpolates: boolean };
+
+  const languageId = document.languageId;
+  const isJavaScriptLike = JAVASCRIPT_LIKE_LANGUAGE_IDS.has(languageId);
+  // Unwound on each closing quote or brace; the bottom entry is plain code.
+  const stack: BraceScanState[] = [{ kind: "code" }];
+  let depth = 0;
+
+  const lastLine = Math.min(maxLine, document.lineCount - 1);
+  for (let line = anchorLine; line <= lastLine; line += 1) {
+    const lineText = document.lineAt(line).text;
+    for (let index = 0; index < lineText.length; index += 1) {
+      const state = stack[stack.length - 1];
+      const char = lineText[index];
+      const rest = lineText.slice(index);
+
+      if (state.kind === "blockComment") {
+        if (rest.startsWith("*/")) {
+          stack.pop();
+          index += 1;
+        }
+        continue;
+      }
+
+      if (state.kind === "string") {
+        if (state.escapes && char === "\\") {
+          index += 1;
+        } else if (state.interpolates && rest.startsWith("${")) {
+          stack.push({ kind: "code", interpolationDepth: 0 });
+          index += 1;
+        } else if (rest.startsWith(state.quote)) {
+          stack.pop();
+          index += state.quote.length - 1;
+        }
+        continue;
+      }
+
+      if (rest.startsWith("//")) {
+        break;
+      }
+      if (rest.startsWith("/*")) {
+        stack.push({ kind: "blockComment" });
+        index += 1;
+        continue;
+      }
+      if (rest.startsWith('"""')) {
+        stack.push({ kind: "string", quote: '"""', escapes: true, interpolates: false });
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        stack.push({ kind: "string", quote: '"', escapes: true, interpolates: false });
+        continue;
+      }
+      if (char === "`") {
+        // Template literals in JavaScript, raw strings in Go.
+        stack.push({
+          kind: "string",
+          quote: "`",
+          escapes: isJavaScriptLike,
+          interpolates: isJavaScriptLike,
+        });
+        continue;
+      }
+      if (char === "'") {
+        if (isJavaScriptLike) {
+          stack.push({ kind: "string", quote: "'", escapes: true, interpolates: false });
+          continue;
+        }
+        // Character literals; a lone quote (e.g. a Rust lifetime) is code.
+        const charLiteral = /^'(?:\\[^']+|[^'\\])'/.exec(rest);
+        if (charLiteral) {
+          index += charLiteral[0].length - 1;
+        }
+        continue;
+      }
+
+      if (state.interpolationDepth !== undefined) {
+        if (char === "{") {
+          state.interpolationDepth += 1;
+        } else if (char === "}") {
+          if (state.interpolationDepth === 0) {
+            stack.pop();
+          } else {
+            state.interpolationDepth -= 1;
+          }
+        }
+        continue;
+      }
+
+      if (char === "(" || char === "[") {
+        depth += 1;
+      } else if (char === ")" || char === "]") {
+        depth = Math.max(0, depth - 1);
+      } else if (depth === 0 && (char === "{" || char === ";")) {
+        return line;
+      }
+    }
   }
 
-  const text = lines.join("\n");
-  if (text.trim().length > 0) {
-    const endChar = lines[lines.length - 1]?.length || 0;
-    return { text, startLine, startChar: 0, endLine, endChar };
+  return undefined;
+}
+
+function extractBraceDefinitionBlock(
+  document: vscode.TextDocument,
+  symbol: vscode.DocumentSymbol
+): DefinitionBlock {
+  const startLine = getDefinitionLineNumber(symbol);
+  const endLine =
+    findBraceDefinitionEndLine(document, startLine, symbol.range.end.line) ??
+    startLine;
+  const leadingLines = collectLeadingTriviaLines(
+    document,
+    startLine,
+    shouldIncludeDocComments(document)
+  );
+  if (
+    (leadingLines.length === 0 && endLine === startLine) ||
+    document.lineAt(startLine).text.trim().length === 0
+  ) {
+    return buildSingleLineDefinitionBlock(document, symbol);
   }
 
-  return buildSingleLineDefinitionBlock(document, symbol);
+  return buildDefinitionBlock(document, leadingLines, startLine, endLine);
 }
 
 export function extractDefinitionBlock(
   document: vscode.TextDocument,
-  symbol: vscode.DocumentSymbol
+  symbol: vscode.DocumentSymbol,
+  options: DefinitionBlockOptions = {}
 ): DefinitionBlock {
   if (document.languageId === "python") {
-    return extractPythonDefinitionBlock(document, symbol);
+    return extractPythonDefinitionBlock(document, symbol, options);
+  }
+  if (BRACE_LANGUAGE_IDS.has(document.languageId)) {
+    return extractBraceDefinitionBlock(document, symbol);
   }
 
   return buildSingleLineDefinitionBlock(document, symbol);
@@ -986,9 +2752,11 @@ export function composeFunctionDefinitionWithParentsBlocks(
   fnSymbol: vscode.DocumentSymbol
 ): DefinitionBlock[] {
   const ancestorDefinitions = ancestors.map((ancestor) =>
-    extractDefinitionBlock(document, ancestor)
+    extractDefinitionBlock(document, ancestor, { includeDocstring: true })
   );
-  const functionDefinition = extractDefinitionBlock(document, fnSymbol);
+  const functionDefinition = extractDefinitionBlock(document, fnSymbol, {
+    includeDocstring: true,
+  });
   return [...ancestorDefinitions, functionDefinition];
 }
 
@@ -1005,8 +2773,19 @@ export function composeFunctionDefinitionWithParentsText(
   return blocks.map((block) => block.text).join("\n");
 }
 
-export async function copyFunctionWithParents() {
-  const editor = getActiveEditor();
+export async function copyFunctionWithParents(profileArg?: unknown) {
+  await copySnippet(await formatFunctionWithParentsSnippet(profileArg));
+}
+
+export async function formatFunctionWithParentsSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
   if (!editor) {
     return;
   }
@@ -1023,32 +2802,76 @@ export async function copyFunctionWithParents() {
     return;
   }
 
-  const combinedText = composeFunctionWithParentsText(
+  return formatFunctionMatchSnippet(document, functionMatch, profile);
+}
+
+function formatFunctionMatchSnippet(
+  document: vscode.TextDocument,
+  functionMatch: FunctionSymbolMatch,
+  profile?: TemplateProfile
+): FormattedSnippet | undefined {
+  const functionText = composeFunctionWithParentsText(
     document,
     functionMatch.ancestors,
     functionMatch.symbol
   );
   const range = getCopyRangeForFunctionSymbol(document, functionMatch.symbol);
+  const firstLine =
+    functionMatch.ancestors.length > 0
+      ? getDefinitionLineNumber(functionMatch.ancestors[0])
+      : range.start.line;
+  const imports = getImportsText(document, functionText);
+  const combinedText = prependImports(document, imports, functionText, firstLine);
 
   const replacements: { [key in ReplacementKey]?: string } = {
     filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
-    range: formatTemplate("rangeTemplate", {
-      startLine: (range.start.line + 1).toString(),
-      startChar: (range.start.character + 1).toString(),
-      endLine: (range.end.line + 1).toString(),
-      endChar: (range.end.character + 1).toString(),
-    }),
+    range: formatTemplate(
+      "rangeTemplate",
+      {
+        startLine: (range.start.line + 1).toString(),
+        startChar: (range.start.character + 1).toString(),
+        endLine: (range.end.line + 1).toString(),
+        endChar: (range.end.character + 1).toString(),
+      },
+      profile,
+      document
+    ),
     text: combinedText,
+    imports: imports?.text,
   };
 
-  const formattedText = formatFunctionContentTemplate(document, replacements);
-  if (formattedText) {
-    await writeClipboardText(formattedText);
-  }
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    { autoWrapWithoutFence: true, ranges: [range] },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements, async () =>
+    formatDefinitionBlocksSnippet(
+      document,
+      composeFunctionDefinitionWithParentsBlocks(
+        document,
+        functionMatch.ancestors,
+        functionMatch.symbol
+      ),
+      profile
+    )
+  );
 }
 
-export async function copyFunctionDefinitionWithParents() {
-  const editor = getActiveEditor();
+export async function copyFunctionDefinitionWithParents(profileArg?: unknown) {
+  await copySnippet(await formatFunctionDefinitionWithParentsSnippet(profileArg));
+}
+
+export async function formatFunctionDefinitionWithParentsSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
   if (!editor) {
     return;
   }
@@ -1070,7 +2893,15 @@ export async function copyFunctionDefinitionWithParents() {
     functionMatch.ancestors,
     functionMatch.symbol
   );
-  const combinedText = definitionBlocks.map((block) => block.text).join("\n");
+  return formatDefinitionBlocksSnippet(document, definitionBlocks, profile);
+}
+
+function formatDefinitionBlocksSnippet(
+  document: vscode.TextDocument,
+  definitionBlocks: DefinitionBlock[],
+  profile?: TemplateProfile
+): FormattedSnippet | undefined {
+  const definitionsText = definitionBlocks.map((block) => block.text).join("\n");
   const startBlock = definitionBlocks.reduce((earliest, block) => {
     if (
       block.startLine < earliest.startLine ||
@@ -1082,68 +2913,1871 @@ export async function copyFunctionDefinitionWithParents() {
     return earliest;
   });
   const functionBlock = definitionBlocks[definitionBlocks.length - 1];
+  const imports = getImportsText(document, definitionsText);
+  const combinedText = prependImports(
+    document,
+    imports,
+    definitionsText,
+    startBlock.startLine
+  );
 
   const replacements: { [key in ReplacementKey]?: string } = {
     filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
-    range: formatTemplate("rangeTemplate", {
-      startLine: (startBlock.startLine + 1).toString(),
-      startChar: (startBlock.startChar + 1).toString(),
-      endLine: (functionBlock.endLine + 1).toString(),
-      endChar: (functionBlock.endChar + 1).toString(),
-    }),
+    range: formatTemplate(
+      "rangeTemplate",
+      {
+        startLine: (startBlock.startLine + 1).toString(),
+        startChar: (startBlock.startChar + 1).toString(),
+        endLine: (functionBlock.endLine + 1).toString(),
+        endChar: (functionBlock.endChar + 1).toString(),
+      },
+      profile,
+      document
+    ),
     text: combinedText,
+    imports: imports?.text,
   };
 
-  const formattedText = formatFunctionContentTemplate(document, replacements);
-  if (formattedText) {
-    await writeClipboardText(formattedText);
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    {
+      autoWrapWithoutFence: true,
+      ranges: [
+        new vscode.Range(
+          startBlock.startLine,
+          startBlock.startChar,
+          functionBlock.endLine,
+          functionBlock.endChar
+        ),
+      ],
+    },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements);
+}
+
+/**
+ * Formats the definition blocks, with their parents, of every function that
+ * overlaps `ranges` (or of every function in the document). This is the
+ * signatures-only fallback for copies that exceed `maxTokens`.
+ */
+async function formatSignaturesSnippet(
+  document: vscode.TextDocument,
+  ranges?: readonly vscode.Range[],
+  profile?: TemplateProfile
+): Promise<FormattedSnippet | undefined> {
+  const symbols = await getDocumentSymbols(document);
+  const matches = collectFunctionSymbolMatches(symbols).filter(
+    ({ symbol }) =>
+      !ranges ||
+      ranges.some((range) =>
+        lineRangesOverlap(
+          symbol.range.start.line,
+          symbol.range.end.line,
+          range.start.line,
+          range.end.line
+        )
+      )
+  );
+
+  const blocksByStart = new Map<string, DefinitionBlock>();
+  for (const match of matches) {
+    for (const block of composeFunctionDefinitionWithParentsBlocks(
+      document,
+      match.ancestors,
+      match.symbol
+    )) {
+      blocksByStart.set(`${block.startLine}:${block.startChar}`, block);
+    }
   }
+  if (blocksByStart.size === 0) {
+    return undefined;
+  }
+
+  const definitionBlocks = [...blocksByStart.values()].sort(
+    (a, b) => a.startLine - b.startLine || a.startChar - b.startChar
+  );
+  return formatDefinitionBlocksSnippet(document, definitionBlocks, profile);
 }
 
-export async function copyFunctionQualifiedName() {
-  const editor = getActiveEditor();
+function isClosingLine(text: string): boolean {
+  return /^(?:[}\])]|end\b)/.test(text.trim());
+}
+
+function getLinesText(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number
+): string {
+  return getTextByRange(
+    document,
+    new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length)
+  );
+}
+
+type OutlineOptions = {
+  /** Lines copied verbatim before the symbols, such as the import block. */
+  leadingBlock?: ImportBlock;
+  /** Function whose body is kept instead of being elided. */
+  expandedSymbol?: vscode.DocumentSymbol;
+};
+
+/**
+ * Writes `symbols` with the definition block of every member. Function bodies
+ * are replaced by an omission marker; fields, constants and other members are
+ * kept verbatim, and classes and namespaces are outlined recursively.
+ */
+function composeOutlineText(
+  document: vscode.TextDocument,
+  symbols: vscode.DocumentSymbol[],
+  options: OutlineOptions = {}
+): string {
+  const lines: string[] = [];
+  let lastLine = -1;
+  const emit = (text: string, startLine: number, endLine: number) => {
+    if (
+      lastLine >= 0 &&
+      startLine > lastLine + 1 &&
+      !hasSignificantCodeLineInRange(document, lastLine + 1, startLine - 1)
+    ) {
+      lines.push("");
+    }
+    lines.push(text);
+    lastLine = endLine;
+  };
+  const emitClosingLine = (symbol: vscode.DocumentSymbol) => {
+    const endLine = Math.min(symbol.range.end.line, document.lineCount - 1);
+    const text = document.lineAt(endLine).text;
+    if (endLine > lastLine && isClosingLine(text)) {
+      emit(text.trimEnd(), endLine, endLine);
+    }
+  };
+
+  const appendMembers = (members: vscode.DocumentSymbol[]) => {
+    const sortedMembers = [...members].sort((a, b) =>
+      comparePositions(a.range.start, b.range.start)
+    );
+    for (const member of sortedMembers) {
+      appendMember(member);
+    }
+  };
+  const appendMember = (symbol: vscode.DocumentSymbol) => {
+    if (
+      FUNCTION_SYMBOL_KINDS.has(symbol.kind) ||
+      OUTLINE_CONTAINER_KINDS.has(symbol.kind)
+    ) {
+      const definitionBlock = extractDefinitionBlock(document, symbol, {
+        includeDocstring: true,
+      });
+      if (definitionBlock.startLine <= lastLine) {
+        return;
+      }
+      emit(definitionBlock.text, definitionBlock.startLine, definitionBlock.endLine);
+    } else {
+      const startLine = symbol.range.start.line;
+      if (startLine <= lastLine) {
+        return;
+      }
+      const leadingLines = collectLeadingTriviaLines(
+        document,
+        startLine,
+        shouldIncludeDocComments(document)
+      ).filter((line) => line > lastLine);
+      const block = buildDefinitionBlock(
+        document,
+        leadingLines,
+        startLine,
+        symbol.range.end.line
+      );
+      emit(block.text, block.startLine, block.endLine);
+      return;
+    }
+
+    if (OUTLINE_CONTAINER_KINDS.has(symbol.kind)) {
+      appendMembers(symbol.children);
+      emitClosingLine(symbol);
+      return;
+    }
+
+    const bodyEndLine = getFunctionBodyEndLine(document, { symbol, ancestors: [] });
+    if (symbol === options.expandedSymbol && bodyEndLine > lastLine) {
+      emit(getLinesText(document, lastLine + 1, bodyEndLine), lastLine + 1, bodyEndLine);
+      return;
+    }
+    const hasClosingLine =
+      document.languageId !== "python" &&
+      bodyEndLine > lastLine &&
+      isClosingLine(document.lineAt(bodyEndLine).text);
+    const lastBodyLine = hasClosingLine ? bodyEndLine - 1 : bodyEndLine;
+    if (hasSignificantCodeLineInRange(document, lastLine + 1, lastBodyLine)) {
+      const firstBodyLine = lastLine + 1;
+      const bodyIndent = findFirstSelectedNonEmptyLineIndent(
+        document,
+        new vscode.Selection(firstBodyLine, 0, lastBodyLine, 0)
+      );
+      emit(
+        formatOmissionMarker(document, bodyIndent, lastBodyLine - firstBodyLine + 1),
+        firstBodyLine,
+        lastBodyLine
+      );
+    }
+    emitClosingLine(symbol);
+  };
+
+  if (options.leadingBlock) {
+    const { startLine, endLine } = options.leadingBlock;
+    emit(getLinesText(document, startLine, endLine), startLine, endLine);
+  }
+  appendMembers(symbols);
+  return lines.join("\n");
+}
+
+/**
+ * Writes `classSymbol` with the definition block of every member and method
+ * bodies replaced by an omission marker.
+ */
+export function composeClassOutlineText(
+  document: vscode.TextDocument,
+  classSymbol: vscode.DocumentSymbol
+): string {
+  return composeOutlineText(document, [classSymbol]);
+}
+
+/**
+ * Writes the document's import block followed by an outline of every
+ * top-level symbol. The body of `expandedSymbol`, when given, is kept.
+ */
+export function composeFileOutlineText(
+  document: vscode.TextDocument,
+  symbols: vscode.DocumentSymbol[],
+  expandedSymbol?: vscode.DocumentSymbol
+): string {
+  return composeOutlineText(document, symbols, {
+    leadingBlock: findImportBlock(document),
+    expandedSymbol,
+  });
+}
+
+export async function copyClassOutline(profileArg?: unknown) {
+  await copySnippet(await formatClassOutlineSnippet(profileArg));
+}
+
+export async function formatClassOutlineSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
   if (!editor) {
     return;
   }
 
   const { document, selection } = editor;
   const symbols = await getDocumentSymbols(document);
-  const functionMatch = findInnermostFunctionSymbolAtPosition(
+  const classMatch = findInnermostClassSymbolAtPosition(
     symbols,
     selection.active
   );
 
-  if (!functionMatch) {
-    vscode.window.showInformationMessage("Unable to identify the current function");
-    return;
-  }
-
-  const qualifiedName = composeQualifiedFunctionName(functionMatch);
-  if (!qualifiedName) {
-    vscode.window.showInformationMessage("Unable to identify the current function");
+  if (!classMatch) {
+    vscode.window.showInformationMessage("Unable to identify the current class");
     return;
   }
 
-  await writeClipboardText(`\`${qualifiedName}\``);
+  return formatClassSnippet(document, classMatch.symbol, profile);
 }
 
-export function copyFile() {
+function formatClassSnippet(
+  document: vscode.TextDocument,
+  classSymbol: vscode.DocumentSymbol,
+  profile?: TemplateProfile
+): FormattedSnippet | undefined {
+  const outlineText = composeClassOutlineText(document, classSymbol);
+  const range = getCopyRangeForFunctionSymbol(document, classSymbol);
+
+  const replacements: { [key in ReplacementKey]?: string } = {
+    filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
+    range: formatTemplate(
+      "rangeTemplate",
+      {
+        startLine: (range.start.line + 1).toString(),
+        startChar: (range.start.character + 1).toString(),
+        endLine: (range.end.line + 1).toString(),
+        endChar: (range.end.character + 1).toString(),
+      },
+      profile,
+      document
+    ),
+    text: getProfileSetting<boolean>("removeRootIndentation", profile, document)
+      ? removeRootIndentation(outlineText)
+      : outlineText,
+  };
+
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    { autoWrapWithoutFence: true, ranges: [range] },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements, () =>
+    formatSignaturesSnippet(document, [classSymbol.range], profile)
+  );
+}
+
+export async function copyFileOutline(profileArg?: unknown) {
+  await copySnippet(await formatFileOutlineSnippet(profileArg));
+}
+
+export async function formatFileOutlineSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
+  if (!editor) {
+    return;
+  }
+
+  const { document, selection } = editor;
+  const symbols = await getDocumentSymbols(document);
+  let expandedSymbol: vscode.DocumentSymbol | undefined;
+  if (getConfiguration<boolean>("fileOutlineExpandCurrentFunction", document) ?? true) {
+    // Only the outermost function in the chain is visited by the outline.
+    const functionMatch = findInnermostFunctionSymbolAtPosition(
+      symbols,
+      selection.active
+    );
+    expandedSymbol = functionMatch
+      ? [...functionMatch.ancestors, functionMatch.symbol].find((symbol) =>
+          FUNCTION_SYMBOL_KINDS.has(symbol.kind)
+        )
+      : undefined;
+  }
+
+  const replacements: { [key in ReplacementKey]?: string } = {
+    filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
+    text: composeFileOutlineText(document, symbols, expandedSymbol),
+    range: "",
+  };
+
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    { autoWrapWithoutFence: false },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements, () =>
+    formatSignaturesSnippet(document, undefined, profile)
+  );
+}
+
+type DependencyContent = "body" | "definition";
+
+type DefinitionTarget = {
+  uri: vscode.Uri;
+  position: vscode.Position;
+};
+
+type DependencySource = {
+  document: vscode.TextDocument;
+  symbol: vscode.DocumentSymbol;
+};
+
+const DEFAULT_DEPENDENCY_DEPTH = 1;
+const DEFAULT_MAX_DEPENDENCIES = 10;
+
+/** Installed packages, which are not copied even inside the workspace. */
+const LIBRARY_PATH_PATTERN =
+  /[\\/](?:node_modules|site-packages|dist-packages|typeshed)[\\/]/;
+
+/** Words that can precede `(` without being a call. */
+const NON_CALL_KEYWORDS = new Set([
+  "if",
+  "elif",
+  "for",
+  "foreach",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "function",
+  "typeof",
+  "sizeof",
+  "await",
+  "yield",
+  "super",
+  "match",
+  "with",
+  "assert",
+  "and",
+  "or",
+  "not",
+  "in",
+]);
+
+/**
+ * Finds the identifiers in `text` accepted by `accept`, skipping string
+ * literals and comments. Each name is reported once, at its first match.
+ */
+function findIdentifiers(
+  text: string,
+  lineCommentPrefix: string,
+  accept: (name: string, start: number, end: number) => boolean
+): { name: string; offset: number }[] {
+  const identifiers: { name: string; offset: number }[] = [];
+  const seen = new Set<string>();
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (text.startsWith(lineCommentPrefix, index)) {
+      const lineEnd = text.indexOf("\n", index);
+      index = lineEnd < 0 ? text.length : lineEnd;
+    } else if (lineCommentPrefix === "//" && text.startsWith("/*", index)) {
+      const commentEnd = text.indexOf("*/", index + 2);
+      index = commentEnd < 0 ? text.length : commentEnd + 2;
+    } else if (char === '"' || char === "'" || char === "`") {
+      // Only template literals may span lines; this also bounds Rust lifetimes.
+      index += 1;
+      while (index < text.length && text[index] !== char) {
+        if (text[index] === "\n" && char !== "`") {
+          break;
+        }
+        index += text[index] === "\\" ? 2 : 1;
+      }
+      index += 1;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const start = index;
+      while (index < text.length && /[\w$]/.test(text[index])) {
+        index += 1;
+      }
+      const name = text.slice(start, index);
+      if (!seen.has(name) && accept(name, start, index)) {
+        seen.add(name);
+        identifiers.push({ name, offset: start });
+      }
+    } else {
+      index += 1;
+    }
+  }
+  return identifiers;
+}
+
+/** Finds identifiers followed by `(`, each reported once. */
+export function findCallIdentifiers(
+  text: string,
+  lineCommentPrefix: string
+): { name: string; offset: number }[] {
+  return findIdentifiers(
+    text,
+    lineCommentPrefix,
+    (name, _start, end) =>
+      !NON_CALL_KEYWORDS.has(name) && /^\s*\(/.test(text.slice(end, end + 20))
+  );
+}
+
+/**
+ * Finds identifiers that are likely type names: capitalized identifiers and
+ * the first identifier of an annotation (after `:` or `->`).
+ */
+export function findTypeIdentifiers(
+  text: string,
+  lineCommentPrefix: string
+): { name: string; offset: number }[] {
+  return findIdentifiers(
+    text,
+    lineCommentPrefix,
+    (name, start) =>
+      /^[A-Z]/.test(name) ||
+      /(?::|->)\s*$/.test(text.slice(Math.max(0, start - 8), start))
+  );
+}
+
+async function findDefinitionTarget(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  command = "vscode.executeDefinitionProvider"
+): Promise<DefinitionTarget | undefined> {
+  const results = await vscode.commands.executeCommand<
+    (vscode.Location | vscode.LocationLink)[] | undefined
+  >(command, document.uri, position);
+  const first = results?.[0];
+  if (!first) {
+    return undefined;
+  }
+  if ("targetUri" in first) {
+    return {
+      uri: first.targetUri,
+      position: (first.targetSelectionRange ?? first.targetRange).start,
+    };
+  }
+  return { uri: first.uri, position: first.range.start };
+}
+
+/** Finds the innermost symbol whose name is at `position`, with its ancestors. */
+function findSymbolDefinedAt(
+  symbols: vscode.DocumentSymbol[],
+  position: vscode.Position
+): FunctionSymbolMatch | undefined {
+  let bestMatch: FunctionSymbolMatch | undefined;
+  const visit = (
+    symbol: vscode.DocumentSymbol,
+    ancestors: vscode.DocumentSymbol[]
+  ) => {
+    if (!symbol.range.contains(position)) {
+      return;
+    }
+    if (symbol.selectionRange.contains(position)) {
+      bestMatch = { symbol, ancestors };
+    }
+    for (const child of symbol.children) {
+      visit(child, [...ancestors, symbol]);
+    }
+  };
+  for (const symbol of symbols) {
+    visit(symbol, []);
+  }
+  return bestMatch;
+}
+
+/** Positions of the called names in `source`, in source order. */
+function findCallPositions(source: DependencySource): vscode.Position[] {
+  const { document, symbol } = source;
+  const startOffset = document.offsetAt(symbol.range.start);
+  const syntax = COMMENT_SYNTAXES[document.languageId] ?? DEFAULT_COMMENT_SYNTAX;
+  return findCallIdentifiers(document.getText(symbol.range), syntax.prefix).map(
+    ({ offset }) => document.positionAt(startOffset + offset)
+  );
+}
+
+function formatSymbolSnippet(
+  document: vscode.TextDocument,
+  symbol: vscode.DocumentSymbol,
+  profile?: TemplateProfile
+): FormattedSnippet | undefined {
+  const range = getCopyRangeForFunctionSymbol(document, symbol);
+  const symbolText = getTextByRange(document, range);
+  const replacements: { [key in ReplacementKey]?: string } = {
+    filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
+    range: formatTemplate(
+      "rangeTemplate",
+      getRangeReplacements(range),
+      profile,
+      document
+    ),
+    text: getProfileSetting<boolean>("removeRootIndentation", profile, document)
+      ? removeRootIndentation(symbolText)
+      : symbolText,
+  };
+
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    { autoWrapWithoutFence: true, ranges: [range] },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements);
+}
+
+function formatDependencySnippet(
+  document: vscode.TextDocument,
+  match: FunctionSymbolMatch,
+  content: DependencyContent,
+  profile?: TemplateProfile
+): FormattedSnippet | undefined {
+  if (FUNCTION_SYMBOL_KINDS.has(match.symbol.kind)) {
+    return content === "definition"
+      ? formatDefinitionBlocksSnippet(
+          document,
+          composeFunctionDefinitionWithParentsBlocks(
+            document,
+            match.ancestors,
+            match.symbol
+          ),
+          profile
+        )
+      : formatFunctionMatchSnippet(document, match, profile);
+  }
+  if (CLASS_SYMBOL_KINDS.has(match.symbol.kind)) {
+    return formatClassSnippet(document, match.symbol, profile);
+  }
+  return formatSymbolSnippet(document, match.symbol, profile);
+}
+
+/**
+ * Follows the calls in `root` through the definition provider, breadth
+ * first, up to `dependencyDepth` levels and `maxDependencies` snippets. Only
+ * definitions in the workspace (or in the same document) and outside
+ * installed packages are collected, each at most once. Calls are resolved one
+ * at a time and resolution stops once the cap is reached. Returns `undefined`
+ * when a snippet fails to format.
+ */
+async function collectDependencySnippets(
+  root: DependencySource,
+  profile?: TemplateProfile
+): Promise<FileSnippet[] | undefined> {
+  const maxDepth =
+    getConfiguration<number>("dependencyDepth", root.document) ??
+    DEFAULT_DEPENDENCY_DEPTH;
+  const maxCount =
+    getConfiguration<number>("maxDependencies", root.document) ??
+    DEFAULT_MAX_DEPENDENCIES;
+  const content =
+    getConfiguration<DependencyContent>("dependencyContent", root.document) ??
+    "body";
+
+  const snippets: FileSnippet[] = [];
+  const collected: { uri: string; range: vscode.Range }[] = [
+    { uri: root.document.uri.toString(), range: root.symbol.range },
+  ];
+  const isCollected = (uri: vscode.Uri, position: vscode.Position) =>
+    collected.some(
+      (entry) => entry.uri === uri.toString() && entry.range.contains(position)
+    );
+
+  let sources = [root];
+  for (let depth = 1; depth <= maxDepth && sources.length > 0; depth += 1) {
+    const nextSources: DependencySource[] = [];
+    for (const source of sources) {
+      for (const position of findCallPositions(source)) {
+        if (snippets.length >= maxCount) {
+          return snippets;
+        }
+        const target = await findDefinitionTarget(source.document, position);
+        if (!target) {
+          continue;
+        }
+        const isLocal = target.uri.toString() === root.document.uri.toString();
+        if (
+          isCollected(target.uri, target.position) ||
+          (!isLocal && !vscode.workspace.getWorkspaceFolder(target.uri)) ||
+          LIBRARY_PATH_PATTERN.test(target.uri.path) ||
+          isDeniedForCopy(target.uri)
+        ) {
+          continue;
+        }
+
+        const document = isLocal
+          ? root.document
+          : await vscode.workspace.openTextDocument(target.uri);
+        const match = findSymbolDefinedAt(
+          await getDocumentSymbols(document),
+          target.position
+        );
+        if (!match) {
+          continue;
+        }
+
+        const snippet = formatDependencySnippet(document, match, content, profile);
+        if (!snippet) {
+          return undefined;
+        }
+        snippets.push({ uri: document.uri, text: snippet.text });
+        collected.push({ uri: document.uri.toString(), range: match.symbol.range });
+        if (FUNCTION_SYMBOL_KINDS.has(match.symbol.kind)) {
+          nextSources.push({ document, symbol: match.symbol });
+        }
+      }
+    }
+    sources = nextSources;
+  }
+  return snippets;
+}
+
+export async function copyFunctionWithDependencies(profileArg?: unknown) {
+  await copySnippet(await formatFunctionWithDependenciesSnippet(profileArg));
+}
+
+export async function formatFunctionWithDependenciesSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
+  if (!editor) {
+    return;
+  }
+
+  const { document, selection } = editor;
+  const symbols = await getDocumentSymbols(document);
+  const functionMatch = findInnermostFunctionSymbolAtPosition(
+    symbols,
+    selection.active
+  );
+
+  if (!functionMatch) {
+    vscode.window.showInformationMessage("Unable to identify the current function");
+    return;
+  }
+
+  const functionSnippet = formatFunctionMatchSnippet(
+    document,
+    functionMatch,
+    profile
+  );
+  if (!functionSnippet) {
+    return;
+  }
+
+  const dependencySnippets = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: "Collecting function dependencies",
+    },
+    () =>
+      collectDependencySnippets(
+        { document, symbol: functionMatch.symbol },
+        profile
+      )
+  );
+  if (!dependencySnippets) {
+    return;
+  }
+
+  const text = joinFileSnippets([
+    { uri: document.uri, text: functionSnippet.text },
+    ...dependencySnippets,
+  ]);
+  return text === undefined ? undefined : { text, label: functionSnippet.label };
+}
+
+const DEFAULT_MAX_CALLERS = 10;
+
+type CallerPickItem = vscode.QuickPickItem & {
+  call: vscode.CallHierarchyIncomingCall;
+};
+
+async function findIncomingCalls(
+  document: vscode.TextDocument,
+  symbol: vscode.DocumentSymbol
+): Promise<vscode.CallHierarchyIncomingCall[]> {
+  const items = await vscode.commands.executeCommand<
+    vscode.CallHierarchyItem[] | undefined
+  >("vscode.prepareCallHierarchy", document.uri, symbol.selectionRange.start);
+  if (!items || items.length === 0) {
+    return [];
+  }
+  const calls = await vscode.commands.executeCommand<
+    vscode.CallHierarchyIncomingCall[] | undefined
+  >("vscode.provideIncomingCalls", items[0]);
+  return (calls ?? []).filter((call) => !isDeniedForCopy(call.from.uri));
+}
+
+/**
+ * Formats the call sites in one caller: the caller's parent chain with the
+ * call-site lines, and omission markers for the code in between.
+ */
+async function formatCallerSnippet(
+  call: vscode.CallHierarchyIncomingCall,
+  openDocument: vscode.TextDocument,
+  profile?: TemplateProfile
+): Promise<FormattedSnippet | undefined> {
+  const document =
+    call.from.uri.toString() === openDocument.uri.toString()
+      ? openDocument
+      : await vscode.workspace.openTextDocument(call.from.uri);
+  const callLines = [
+    ...new Set(
+      call.fromRanges.flatMap((range) => {
+        const lines: number[] = [];
+        for (let line = range.start.line; line <= range.end.line; line += 1) {
+          lines.push(line);
+        }
+        return lines;
+      })
+    ),
+  ].sort((a, b) => a - b);
+  const selections = callLines.map(
+    (line) => new vscode.Selection(line, 0, line, document.lineAt(line).text.length)
+  );
+  const symbols = await getDocumentSymbols(document);
+  const replacements: { [key in ReplacementKey]?: string } = {
+    filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
+    range: formatRangeList(selections, profile, document),
+    text: composeSelectionsText(
+      document,
+      symbols,
+      selections,
+      getProfileSetting<boolean>("removeRootIndentation", profile, document)
+    ),
+  };
+
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    { autoWrapWithoutFence: false, ranges: selections },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements);
+}
+
+export async function copyFunctionWithCallers(profileArg?: unknown) {
+  await copySnippet(await formatFunctionWithCallersSnippet(profileArg));
+}
+
+export async function formatFunctionWithCallersSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
+  if (!editor) {
+    return;
+  }
+
+  const { document, selection } = editor;
+  const symbols = await getDocumentSymbols(document);
+  const functionMatch = findInnermostFunctionSymbolAtPosition(
+    symbols,
+    selection.active
+  );
+
+  if (!functionMatch) {
+    vscode.window.showInformationMessage("Unable to identify the current function");
+    return;
+  }
+
+  const calls = await findIncomingCalls(document, functionMatch.symbol);
+  if (calls.length === 0) {
+    vscode.window.showInformationMessage(
+      `No callers found for ${functionMatch.symbol.name}`
+    );
+    return;
+  }
+
+  const maxCallers =
+    getConfiguration<number>("maxCallers", document) ?? DEFAULT_MAX_CALLERS;
+  const pickedCallers = await vscode.window.showQuickPick<CallerPickItem>(
+    calls.slice(0, maxCallers).map((call) => ({
+      label: call.from.name,
+      description: `${vscode.workspace.asRelativePath(call.from.uri)}:${
+        call.from.selectionRange.start.line + 1
+      }`,
+      detail: call.fromRanges.length === 1 ? undefined : `${call.fromRanges.length} calls`,
+      picked: true,
+      call,
+    })),
+    {
+      canPickMany: true,
+      placeHolder:
+        calls.length > maxCallers
+          ? `Callers of ${functionMatch.symbol.name} to copy (first ${maxCallers} of ${calls.length})`
+          : `Callers of ${functionMatch.symbol.name} to copy`,
+    }
+  );
+  if (!pickedCallers || pickedCallers.length === 0) {
+    return;
+  }
+
+  const functionSnippet = formatFunctionMatchSnippet(
+    document,
+    functionMatch,
+    profile
+  );
+  if (!functionSnippet) {
+    return;
+  }
+
+  const snippets: FileSnippet[] = [
+    { uri: document.uri, text: functionSnippet.text },
+  ];
+  for (const { call } of pickedCallers) {
+    const callerSnippet = await formatCallerSnippet(call, document, profile);
+    if (!callerSnippet) {
+      return;
+    }
+    snippets.push({ uri: call.from.uri, text: callerSnippet.text });
+  }
+
+  const text = joinFileSnippets(snippets);
+  return text === undefined ? undefined : { text, label: functionSnippet.label };
+}
+
+/**
+ * Resolves the type names in `root` through the type definition provider and
+ * formats each declaration once: classes as outlines (fields verbatim, method
+ * bodies elided), interfaces, type aliases and enums verbatim. Types outside
+ * the workspace or in installed packages are skipped unless
+ * `includeLibraryTypes` is enabled. Returns `undefined` when a snippet fails
+ * to format.
+ */
+async function collectReferencedTypeSnippets(
+  root: DependencySource,
+  profile?: TemplateProfile
+): Promise<FileSnippet[] | undefined> {
+  const { document: rootDocument, symbol: rootSymbol } = root;
+  const includeLibraryTypes =
+    getConfiguration<boolean>("includeLibraryTypes", rootDocument) ?? false;
+  const startOffset = rootDocument.offsetAt(rootSymbol.range.start);
+  const syntax =
+    COMMENT_SYNTAXES[rootDocument.languageId] ?? DEFAULT_COMMENT_SYNTAX;
+
+  const snippets: FileSnippet[] = [];
+  const collected: { uri: string; range: vscode.Range }[] = [
+    { uri: rootDocument.uri.toString(), range: rootSymbol.range },
+  ];
+  for (const { offset } of findTypeIdentifiers(
+    rootDocument.getText(rootSymbol.range),
+    syntax.prefix
+  )) {
+    const target = await findDefinitionTarget(
+      rootDocument,
+      rootDocument.positionAt(startOffset + offset),
+      "vscode.executeTypeDefinitionProvider"
+    );
+    if (!target) {
+      continue;
+    }
+    const isLocal = target.uri.toString() === rootDocument.uri.toString();
+    const isLibrary =
+      LIBRARY_PATH_PATTERN.test(target.uri.path) ||
+      (!isLocal && !vscode.workspace.getWorkspaceFolder(target.uri));
+    if (
+      (isLibrary && !includeLibraryTypes) ||
+      isDeniedForCopy(target.uri) ||
+      collected.some(
+        (entry) =>
+          entry.uri === target.uri.toString() &&
+          entry.range.contains(target.position)
+      )
+    ) {
+      continue;
+    }
+
+    const document = isLocal
+      ? rootDocument
+      : await vscode.workspace.openTextDocument(target.uri);
+    const match = findSymbolDefinedAt(
+      await getDocumentSymbols(document),
+      target.position
+    );
+    if (!match || FUNCTION_SYMBOL_KINDS.has(match.symbol.kind)) {
+      continue;
+    }
+
+    const snippet =
+      match.symbol.kind === vscode.SymbolKind.Class
+        ? formatClassSnippet(document, match.symbol, profile)
+        : formatSymbolSnippet(document, match.symbol, profile);
+    if (!snippet) {
+      return undefined;
+    }
+    snippets.push({ uri: document.uri, text: snippet.text });
+    collected.push({ uri: document.uri.toString(), range: match.symbol.range });
+  }
+  return snippets;
+}
+
+export async function copyFunctionWithReferencedTypes(profileArg?: unknown) {
+  await copySnippet(await formatFunctionWithReferencedTypesSnippet(profileArg));
+}
+
+export async function formatFunctionWithReferencedTypesSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return;
+  }
+
+  const editor = getActiveEditorForCopy();
+  if (!editor) {
+    return;
+  }
+
+  const { document, selection } = editor;
+  const symbols = await getDocumentSymbols(document);
+  const functionMatch = findInnermostFunctionSymbolAtPosition(
+    symbols,
+    selection.active
+  );
+
+  if (!functionMatch) {
+    vscode.window.showInformationMessage("Unable to identify the current function");
+    return;
+  }
+
+  const functionSnippet = formatFunctionMatchSnippet(
+    document,
+    functionMatch,
+    profile
+  );
+  if (!functionSnippet) {
+    return;
+  }
+
+  const typeSnippets = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: "Collecting referenced types",
+    },
+    () =>
+      collectReferencedTypeSnippets(
+        { document, symbol: functionMatch.symbol },
+        profile
+      )
+  );
+  if (!typeSnippets) {
+    return;
+  }
+
+  const text = joinFileSnippets([
+    { uri: document.uri, text: functionSnippet.text },
+    ...typeSnippets,
+  ]);
+  return text === undefined ? undefined : { text, label: functionSnippet.label };
+}
+
+export async function copyWithProblems(profileArg?: unknown) {
+  await copySnippet(await formatWithProblemsSnippet(profileArg));
+}
+
+/**
+ * Formats the selection, or the function at the cursor when nothing is
+ * selected, and renders it with the diagnostics on its lines through
+ * `problemsTemplate`.
+ */
+export async function formatWithProblemsSnippet(
+  profileArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const editor = getActiveEditorForCopy();
+  if (!editor) {
+    return;
+  }
+
+  const { document } = editor;
+  let ranges: vscode.Range[] = getSelectionsInDocumentOrder(editor).filter(
+    (selection) => !selection.isEmpty
+  );
+  let snippet: FormattedSnippet | undefined;
+  if (ranges.length > 0) {
+    snippet = await formatSelectionSnippet(profileArg);
+  } else {
+    const functionMatch = findInnermostFunctionSymbolAtPosition(
+      await getDocumentSymbols(document),
+      editor.selection.active
+    );
+    if (!functionMatch) {
+      vscode.window.showInformationMessage("Unable to identify the current function");
+      return;
+    }
+    ranges = [getCopyRangeForFunctionSymbol(document, functionMatch.symbol)];
+    snippet = await formatFunctionWithParentsSnippet(profileArg);
+  }
+  if (!snippet) {
+    return;
+  }
+
+  const diagnostics = getDiagnosticsInRanges(document, ranges);
+  const diagnosticsText = formatDiagnostics(document, diagnostics);
+  if (diagnosticsText === undefined) {
+    return;
+  }
+  const template =
+    getConfiguration("problemsTemplate", document) ?? DEFAULT_PROBLEMS_TEMPLATE;
+  try {
+    return {
+      text: renderTemplate(template, {
+        text: snippet.text,
+        diagnostics: diagnosticsText,
+        count: diagnostics.length.toString(),
+      }),
+      label: snippet.label,
+    };
+  } catch (error) {
+    return reportTemplateError("problemsTemplate", error);
+  }
+}
+
+type FunctionSpan = LineSpan & {
+  functionMatch: FunctionSymbolMatch;
+};
+
+export async function copyWorkingChanges(scopeArg?: unknown) {
+  await copySnippet(await formatWorkingChangesSnippet(scopeArg));
+}
+
+export async function copyStagedChanges(scopeArg?: unknown) {
+  await copySnippet(await formatStagedChangesSnippet(scopeArg));
+}
+
+export function formatWorkingChangesSnippet(
+  scopeArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  return formatGitChangesSnippet(false, scopeArg);
+}
+
+export function formatStagedChangesSnippet(
+  scopeArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  return formatGitChangesSnippet(true, scopeArg);
+}
+
+/**
+ * Formats the uncommitted changes of the active file, or of the whole
+ * repository, rendering `diffTemplate` once per hunk. The scope comes from
+ * the command argument (`"activeFile"` or `"repository"`) or `changesScope`.
+ */
+async function formatGitChangesSnippet(
+  staged: boolean,
+  scopeArg?: unknown
+): Promise<FormattedSnippet | undefined> {
+  const scope =
+    scopeArg === "activeFile" || scopeArg === "repository"
+      ? scopeArg
+      : getConfiguration<ChangesScope>("changesScope") ?? "activeFile";
+
+  let directory: string | undefined;
+  let fileName: string | undefined;
+  let label: string;
+  if (scope === "activeFile") {
+    const editor = getActiveEditorForCopy();
+    if (!editor) {
+      return;
+    }
+    const { uri } = editor.document;
+    if (uri.scheme !== "file") {
+      vscode.window.showInformationMessage(
+        "The active document is not a file in a git repository"
+      );
+      return;
+    }
+    directory = path.dirname(uri.fsPath);
+    fileName = path.basename(uri.fsPath);
+    label = vscode.workspace.asRelativePath(uri.fsPath);
+  } else {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    directory =
+      activeUri?.scheme === "file"
+        ? path.dirname(activeUri.fsPath)
+        : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!directory) {
+      vscode.window.showInformationMessage(
+        "Open a folder or a file in a git repository to copy its changes"
+      );
+      return;
+    }
+    label = "Repository";
+  }
+
+  let changes: GitChanges;
+  try {
+    changes = await readGitChanges(directory, staged, fileName);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Unable to read git changes: ${message}`);
+    return;
+  }
+
+  const snippets: FileSnippet[] = [];
+  let deniedCount = 0;
+  for (const file of changes.files) {
+    const filePath = file.newPath ?? file.oldPath;
+    if (!filePath || file.binary || file.hunks.length === 0) {
+      continue;
+    }
+    const uri = vscode.Uri.file(path.join(changes.root, filePath));
+    if (isDeniedForCopy(uri)) {
+      deniedCount += 1;
+      continue;
+    }
+    const fileSnippets = await formatDiffFileSnippets(changes.root, file, uri, staged);
+    if (!fileSnippets) {
+      return;
+    }
+    snippets.push(...fileSnippets);
+  }
+
+  if (snippets.length === 0) {
+    if (deniedCount > 0) {
+      vscode.window.showWarningMessage(
+        "Copying the changed files is blocked by copy-paste-template.denyGlobs"
+      );
+    } else {
+      vscode.window.showInformationMessage(
+        staged ? "No staged changes to copy" : "No working changes to copy"
+      );
+    }
+    return;
+  }
+
+  const text = joinFileSnippets(snippets);
+  return text === undefined
+    ? undefined
+    : { text, label: `${label} (${staged ? "staged" : "working"} changes)` };
+}
+
+/**
+ * Opens the changed file as it reads on the new side of the diff: the
+ * working copy, or the staged content in an untitled document of the same
+ * language. The diff is of the saved file, so a working copy with unsaved
+ * edits is replaced by its saved content too.
+ */
+async function openChangedDocument(
+  root: string,
+  filePath: string,
+  uri: vscode.Uri,
+  staged: boolean
+): Promise<vscode.TextDocument | undefined> {
+  try {
+    const workingDocument = await vscode.workspace.openTextDocument(uri);
+    if (!staged && !workingDocument.isDirty) {
+      return workingDocument;
+    }
+    return await vscode.workspace.openTextDocument({
+      content: staged
+        ? await readIndexFile(root, filePath)
+        : new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)),
+      language: workingDocument.languageId,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function findHunkFunctionSpan(
+  document: vscode.TextDocument,
+  symbols: vscode.DocumentSymbol[],
+  hunk: DiffHunk
+): FunctionSpan | undefined {
+  const line = Math.min(getFirstChangedLine(hunk), document.lineCount) - 1;
+  const functionMatch = findInnermostFunctionSymbolAtPosition(
+    symbols,
+    new vscode.Position(line, getLineIndent(document.lineAt(line).text).length)
+  );
+  if (!functionMatch) {
+    return undefined;
+  }
+
+  return {
+    startLine: functionMatch.symbol.range.start.line + 1,
+    endLine: getFunctionBodyEndLine(document, functionMatch) + 1,
+    functionMatch,
+  };
+}
+
+/**
+ * Renders `diffTemplate` for each hunk of `file`. With
+ * `expandChangesToFunction`, hunks are widened to their enclosing function
+ * and `{text}` holds that function with its parent headers; otherwise
+ * `{text}` is the hunk's new text.
+ */
+async function formatDiffFileSnippets(
+  root: string,
+  file: DiffFile,
+  uri: vscode.Uri,
+  staged: boolean
+): Promise<FileSnippet[] | undefined> {
+  const template = getConfiguration<string>("diffTemplate", uri);
+  if (!template) {
+    vscode.window.showInformationMessage("No template found for diffTemplate");
+    return undefined;
+  }
+
+  let hunks: { hunk: DiffHunk; span?: FunctionSpan }[] = file.hunks.map(
+    (hunk) => ({ hunk })
+  );
+  let document: vscode.TextDocument | undefined;
+  let symbols: vscode.DocumentSymbol[] = [];
+  if (
+    file.newPath &&
+    getConfiguration<boolean>("expandChangesToFunction", uri)
+  ) {
+    document = await openChangedDocument(root, file.newPath, uri, staged);
+    if (document) {
+      const changedDocument = document;
+      symbols = await getDocumentSymbols(changedDocument);
+      hunks = expandHunks(
+        file.hunks,
+        (hunk) => findHunkFunctionSpan(changedDocument, symbols, hunk),
+        (line) => changedDocument.lineAt(line - 1).text
+      );
+    }
+  }
+
+  const snippets: FileSnippet[] = [];
+  for (const { hunk, span } of hunks) {
+    const replacements: { [key in ReplacementKey]?: string } = {
+      filePath: vscode.workspace.asRelativePath(uri.fsPath),
+      diff: [formatHunkHeader(hunk), ...hunk.lines].join("\n"),
+      oldRange: formatHunkLineRange(hunk.oldStart, hunk.oldLines),
+      newRange: formatHunkLineRange(hunk.newStart, hunk.newLines),
+      text:
+        document && span
+          ? composeFunctionWithParentsText(
+              document,
+              span.functionMatch.ancestors,
+              span.functionMatch.symbol
+            )
+          : getHunkNewText(hunk),
+      languageId: document?.languageId,
+      // The committed file matches the old side of the hunk.
+      ...getGitReplacements(template, uri, {
+        startLine: Math.max(hunk.oldStart, 1),
+        endLine: Math.max(hunk.oldStart + hunk.oldLines - 1, 1),
+      }),
+    };
+    const fence = getSafeFence(`${replacements.diff}\n${replacements.text}`);
+    try {
+      snippets.push({
+        uri,
+        text: formatString(widenTemplateFences(template, fence), replacements),
+      });
+    } catch (error) {
+      return reportTemplateError("diffTemplate", error);
+    }
+  }
+  return snippets;
+}
+
+/**
+ * Copies the qualified name of the function at the cursor in `styleArg`.
+ * Without a style, languages that have styles besides `local` get a
+ * quick-pick of every form of the name.
+ */
+export async function copyFunctionQualifiedName(styleArg?: unknown) {
+  const editor = getActiveEditor();
+  if (!editor) {
+    return;
+  }
+  if (styleArg !== undefined && !isQualifiedNameStyle(styleArg)) {
+    vscode.window.showInformationMessage(
+      `Unknown qualified name style: ${String(styleArg)}`
+    );
+    return;
+  }
+
+  const { document, selection } = editor;
+  const symbols = await getDocumentSymbols(document);
+  const functionMatch = findInnermostFunctionSymbolAtPosition(
+    symbols,
+    selection.active
+  );
+
+  if (!functionMatch) {
+    vscode.window.showInformationMessage("Unable to identify the current function");
+    return;
+  }
+
+  let qualifiedName: string;
+  const styles: QualifiedNameStyle[] = [
+    ...(LANGUAGE_QUALIFIED_NAME_STYLES[document.languageId] ?? []),
+    "local",
+  ];
+  if (styleArg !== undefined) {
+    qualifiedName = await composeStyledQualifiedName(document, functionMatch, styleArg);
+  } else if (styles.length === 1) {
+    qualifiedName = composeQualifiedFunctionName(functionMatch);
+  } else {
+    const items: vscode.QuickPickItem[] = [];
+    for (const style of styles) {
+      const label = await composeStyledQualifiedName(document, functionMatch, style);
+      if (label && !items.some((item) => item.label === label)) {
+        items.push({ label, description: QUALIFIED_NAME_STYLE_LABELS[style] });
+      }
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "Select a qualified name style",
+    });
+    if (!picked) {
+      return;
+    }
+    qualifiedName = picked.label;
+  }
+  if (!qualifiedName) {
+    vscode.window.showInformationMessage("Unable to identify the current function");
+    return;
+  }
+
+  await copyToClipboard(`\`${qualifiedName}\``);
+}
+
+type LocationTarget = {
+  /** Where the location points; gives `{line}` and `{column}`. */
+  range: vscode.Range;
+  /** What it covers; gives `{endLine}`, `{endColumn}` and the permalink lines. */
+  span: vscode.Range;
+  symbol: string;
+};
+
+/**
+ * What one cursor points at: a non-empty selection, else the definition of
+ * the function around the cursor, else the cursor itself.
+ */
+function getLocationTarget(
+  symbols: vscode.DocumentSymbol[],
+  selection: vscode.Selection
+): LocationTarget {
+  const functionMatch = findInnermostFunctionSymbolAtPosition(
+    symbols,
+    selection.isEmpty ? selection.active : selection.start
+  );
+  const symbol = functionMatch ? composeQualifiedFunctionName(functionMatch) : "";
+  if (!selection.isEmpty) {
+    return { range: selection, span: selection, symbol };
+  }
+  if (functionMatch) {
+    return {
+      range: functionMatch.symbol.selectionRange,
+      span: functionMatch.symbol.range,
+      symbol,
+    };
+  }
+  return { range: selection, span: selection, symbol };
+}
+
+/**
+ * Renders `locationTemplate` (or the preset or template passed as the command
+ * argument) once per cursor. Identical lines, e.g. from two cursors in the
+ * same function, are written once.
+ */
+function formatLocations(
+  editor: vscode.TextEditor,
+  symbols: vscode.DocumentSymbol[],
+  formatArg?: unknown
+): string | undefined {
+  const { document } = editor;
+  const setting =
+    typeof formatArg === "string"
+      ? formatArg
+      : getConfiguration("locationTemplate", document) ?? "pathLineColumn";
+  const template = LOCATION_PRESETS[setting] ?? setting;
+  const selections =
+    editor.selections && editor.selections.length > 0
+      ? [...editor.selections].sort((a, b) => comparePositions(a.start, b.start))
+      : [editor.selection];
+
+  const lines: string[] = [];
+  for (const selection of selections) {
+    const { range, span, symbol } = getLocationTarget(symbols, selection);
+    const line = (range.start.line + 1).toString();
+    const column = (range.start.character + 1).toString();
+    let location: string;
+    try {
+      location = renderTemplate(template, {
+        filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
+        absolutePath: document.uri.fsPath,
+        line,
+        column,
+        endLine: (span.end.line + 1).toString(),
+        endColumn: (span.end.character + 1).toString(),
+        symbol,
+        vscodeUri:
+          document.uri.scheme === "file"
+            ? `${vscode.env.uriScheme}://file${encodeURI(document.uri.path)}:${line}:${column}`
+            : "",
+        ...getGitReplacements(template, document.uri, getPermalinkLines([span])),
+      });
+    } catch (error) {
+      return reportTemplateError("locationTemplate", error);
+    }
+    if (!lines.includes(location)) {
+      lines.push(location);
+    }
+  }
+  return lines.join("\n");
+}
+
+export async function copyLocation(formatArg?: unknown) {
   const editor = getActiveEditor();
   if (!editor) {
     return;
   }
 
-  const text = editor.document.getText();
+  const symbols = await getDocumentSymbols(editor.document);
+  const text = formatLocations(editor, symbols, formatArg);
+  if (text === undefined) {
+    return;
+  }
+  await copyToClipboard(text);
+}
+
+export async function copyFile(profileArg?: unknown) {
+  await copySnippet(formatFileSnippet(profileArg));
+}
+
+export function formatFileSnippet(
+  profileArg?: unknown
+): FormattedSnippet | undefined {
+  const profile = resolveProfileArgument(profileArg);
+  if (!profile) {
+    return undefined;
+  }
+
+  const editor = getActiveEditorForCopy();
+  if (!editor) {
+    return undefined;
+  }
+
+  return formatEntireDocument(editor.document, profile);
+}
+
+function formatEntireDocument(
+  document: vscode.TextDocument,
+  profile?: TemplateProfile
+): FormattedSnippet | undefined {
   const replacements: { [key in ReplacementKey]?: string } = {
-    filePath: vscode.workspace.asRelativePath(editor.document.uri.fsPath),
-    text: text,
+    filePath: vscode.workspace.asRelativePath(document.uri.fsPath),
+    text: document.getText(),
     range: "",
   };
 
-  const formattedText = formatTemplate("template", replacements);
-  if (formattedText) {
-    void writeClipboardText(formattedText);
+  const formattedText = formatFunctionContentTemplate(
+    document,
+    replacements,
+    { autoWrapWithoutFence: false },
+    profile
+  );
+  return toFormattedSnippet(formattedText, replacements, () =>
+    formatSignaturesSnippet(document, undefined, profile)
+  );
+}
+
+/**
+ * Copies the files and folders selected in the Explorer as one snippet. The
+ * Explorer passes the clicked resource first and the full selection second.
+ */
+export async function copyFiles(uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const selectedUris = uris && uris.length > 0 ? uris : uri ? [uri] : [];
+  if (selectedUris.length === 0) {
+    vscode.window.showInformationMessage(
+      "Select one or more files or folders in the Explorer"
+    );
+    return;
+  }
+
+  const maxFiles = getConfiguration<number>("maxFiles") ?? DEFAULT_MAX_FILES;
+  const maxBytes = getConfiguration<number>("maxBytes") ?? DEFAULT_MAX_BYTES;
+  const { files, skippedBinaryFiles, deniedFiles, cancelled } = await collectFiles(
+    selectedUris,
+    isDeniedForCopy,
+    {
+      maxFiles,
+      maxBytes,
+      confirmOverLimit: async (exceeded) => {
+        const limit =
+          exceeded === "maxFiles"
+            ? `${maxFiles} files`
+            : `${Math.round(maxBytes / 1024)} KB`;
+        const choice = await vscode.window.showWarningMessage(
+          `The selection has more than ${limit} (copy-paste-template.${exceeded})`,
+          { modal: true },
+          COPY_ANYWAY
+        );
+        return choice === COPY_ANYWAY;
+      },
+    }
+  );
+  if (cancelled) {
+    return;
+  }
+  if (files.length === 0) {
+    if (deniedFiles.length > 0) {
+      vscode.window.showWarningMessage(
+        "Copying the selected files is blocked by copy-paste-template.denyGlobs"
+      );
+    } else {
+      vscode.window.showInformationMessage("No text files to copy");
+    }
+    return;
+  }
+
+  const documents: vscode.TextDocument[] = [];
+  const formattedFiles: FileSnippet[] = [];
+  for (const fileUri of files) {
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    const formattedFile = formatEntireDocument(document);
+    if (formattedFile === undefined) {
+      return;
+    }
+    documents.push(document);
+    formattedFiles.push({ uri: fileUri, text: formattedFile.text });
+  }
+
+  const text = joinFileSnippets(formattedFiles);
+  if (text === undefined) {
+    return;
+  }
+
+  const copied = await copyToClipboard(text, async () => {
+    const signatures: FileSnippet[] = [];
+    for (const document of documents) {
+      const snippet = await formatSignaturesSnippet(document);
+      if (snippet) {
+        signatures.push({ uri: document.uri, text: snippet.text });
+      }
+    }
+    const signaturesText = joinFileSnippets(signatures);
+    return signatures.length > 0 && signaturesText !== undefined
+      ? { text: signaturesText, label: "" }
+      : undefined;
+  });
+  const skippedNotes = [
+    ...(skippedBinaryFiles.length > 0
+      ? [`skipped ${skippedBinaryFiles.length} binary file(s)`]
+      : []),
+    ...(deniedFiles.length > 0
+      ? [`skipped ${deniedFiles.length} file(s) matched by copy-paste-template.denyGlobs`]
+      : []),
+  ];
+  if (copied && skippedNotes.length > 0) {
+    vscode.window.showInformationMessage(
+      `Copied ${files.length} file(s); ${skippedNotes.join("; ")}`
+    );
+  }
+}
+
+type FileSnippet = {
+  uri: vscode.Uri;
+  text: string;
+};
+
+/** Joins per-file snippets, rendering `fileSeparatorTemplate` between them. */
+function joinFileSnippets(snippets: FileSnippet[]): string | undefined {
+  const separatorTemplate = getConfiguration("fileSeparatorTemplate") ?? "\n";
+  let joined = "";
+  for (const [index, snippet] of snippets.entries()) {
+    if (index > 0) {
+      try {
+        joined += renderTemplate(separatorTemplate, {
+          filePath: vscode.workspace.asRelativePath(snippet.uri.fsPath),
+          index: (index + 1).toString(),
+          count: snippets.length.toString(),
+        });
+      } catch (error) {
+        return reportTemplateError("fileSeparatorTemplate", error);
+      }
+    }
+    joined += snippet.text;
+  }
+  return joined;
+}
+
+const PROFILE_COPY_COMMANDS: {
+  label: string;
+  run: (profileName: string) => unknown;
+}[] = [
+  { label: "Selection", run: copySelection },
+  { label: "Entire File", run: copyFile },
+  { label: "Function With Parents", run: copyFunctionWithParents },
+  {
+    label: "Function Definition With Parents",
+    run: copyFunctionDefinitionWithParents,
+  },
+  { label: "Class Outline", run: copyClassOutline },
+  { label: "File Outline", run: copyFileOutline },
+  { label: "Function With Dependencies", run: copyFunctionWithDependencies },
+  { label: "Function With Callers", run: copyFunctionWithCallers },
+  {
+    label: "Function With Referenced Types",
+    run: copyFunctionWithReferencedTypes,
+  },
+  { label: "With Problems", run: copyWithProblems },
+];
+
+export async function copyWithProfile(profileArg?: unknown) {
+  const profiles = getProfiles();
+  const profileNames = Object.keys(profiles);
+  if (profileNames.length === 0) {
+    vscode.window.showInformationMessage(
+      "No template profiles configured in copy-paste-template.profiles"
+    );
+    return;
+  }
+
+  let profileName = typeof profileArg === "string" ? profileArg : undefined;
+  if (!profileName) {
+    const pickedProfile = await vscode.window.showQuickPick(
+      profileNames.map((name) => ({
+        label: name,
+        detail: profiles[name]?.template?.split("\n")[0],
+      })),
+      { placeHolder: "Select a template profile" }
+    );
+    if (!pickedProfile) {
+      return;
+    }
+    profileName = pickedProfile.label;
+  }
+
+  const pickedCommand = await vscode.window.showQuickPick(
+    PROFILE_COPY_COMMANDS,
+    { placeHolder: `Copy with profile "${profileName}"` }
+  );
+  if (!pickedCommand) {
+    return;
+  }
+
+  await pickedCommand.run(profileName);
+}
+
+export async function addToContextBasket(
+  basket: ContextBasket,
+  kind: string,
+  snippet: FormattedSnippet | undefined
+) {
+  if (!snippet) {
+    return;
+  }
+
+  // Entries are persisted in workspace state, so mask secrets before storing.
+  const redaction = redactCopiedText(snippet.text);
+  if (!redaction) {
+    return;
+  }
+
+  await basket.add({ label: snippet.label, kind, text: redaction.text });
+  vscode.window.setStatusBarMessage(
+    `Added to context basket (${basket.getEntries().length} snippet(s))`,
+    3000
+  );
+  if (redaction.count > 0) {
+    vscode.window.showInformationMessage(
+      `Redacted ${redaction.count} secret(s) from the basket snippet`
+    );
+  }
+}
+
+export async function copyContextBasket(basket: ContextBasket) {
+  const entries = basket.getEntries();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("The context basket is empty");
+    return;
+  }
+
+  const wrapperTemplate = getConfiguration("basketTemplate") ?? "{snippets}";
+  const separator = getConfiguration("basketSeparator") ?? "\n";
+  let text: string;
+  try {
+    text = renderTemplate(wrapperTemplate, {
+      snippets: entries.map((entry) => entry.text).join(separator),
+      count: entries.length.toString(),
+    });
+  } catch (error) {
+    reportTemplateError("basketTemplate", error);
+    return;
+  }
+  await copyToClipboard(text);
+}
+
+const CONTEXT_BASKET_COMMANDS: {
+  command: string;
+  kind: string;
+  format: (
+    profileArg?: unknown
+  ) => FormattedSnippet | undefined | Promise<FormattedSnippet | undefined>;
+}[] = [
+  {
+    command: "copy-paste-template.addSelectionToBasket",
+    kind: "Selection",
+    format: formatSelectionSnippet,
+  },
+  {
+    command: "copy-paste-template.addFileToBasket",
+    kind: "File",
+    format: formatFileSnippet,
+  },
+  {
+    command: "copy-paste-template.addFunctionWithParentsToBasket",
+    kind: "Function",
+    format: formatFunctionWithParentsSnippet,
+  },
+  {
+    command: "copy-paste-template.addFunctionDefinitionWithParentsToBasket",
+    kind: "Definition",
+    format: formatFunctionDefinitionWithParentsSnippet,
+  },
+  {
+    command: "copy-paste-template.addClassOutlineToBasket",
+    kind: "Class Outline",
+    format: formatClassOutlineSnippet,
+  },
+  {
+    command: "copy-paste-template.addFileOutlineToBasket",
+    kind: "File Outline",
+    format: formatFileOutlineSnippet,
+  },
+  {
+    command: "copy-paste-template.addFunctionWithDependenciesToBasket",
+    kind: "Dependencies",
+    format: formatFunctionWithDependenciesSnippet,
+  },
+  {
+    command: "copy-paste-template.addFunctionWithCallersToBasket",
+    kind: "Callers",
+    format: formatFunctionWithCallersSnippet,
+  },
+  {
+    command: "copy-paste-template.addFunctionWithReferencedTypesToBasket",
+    kind: "Types",
+    format: formatFunctionWithReferencedTypesSnippet,
+  },
+  {
+    command: "copy-paste-template.addWithProblemsToBasket",
+    kind: "Problems",
+    format: formatWithProblemsSnippet,
+  },
+  {
+    command: "copy-paste-template.addWorkingChangesToBasket",
+    kind: "Changes",
+    format: formatWorkingChangesSnippet,
+  },
+  {
+    command: "copy-paste-template.addStagedChangesToBasket",
+    kind: "Changes",
+    format: formatStagedChangesSnippet,
+  },
+];
+
+function registerContextBasket(context: vscode.ExtensionContext) {
+  const basket = new ContextBasket(context.workspaceState);
+  context.subscriptions.push(
+    basket,
+    vscode.window.registerTreeDataProvider(
+      "copy-paste-template.contextBasket",
+      basket
+    )
+  );
+
+  for (const { command, kind, format } of CONTEXT_BASKET_COMMANDS) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, async (profileArg?: unknown) =>
+        addToContextBasket(basket, kind, await format(profileArg))
+      )
+    );
   }
+  context.subscriptions.push(
+    vscode.commands.registerCommand("copy-paste-template.copyBasket", () =>
+      copyContextBasket(basket)
+    ),
+    vscode.commands.registerCommand("copy-paste-template.clearBasket", () =>
+      basket.clear()
+    ),
+    vscode.commands.registerCommand(
+      "copy-paste-template.removeBasketEntry",
+      (entry: BasketEntry) => basket.remove(entry)
+    ),
+    vscode.commands.registerCommand(
+      "copy-paste-template.moveBasketEntryUp",
+      (entry: BasketEntry) => basket.move(entry, -1)
+    ),
+    vscode.commands.registerCommand(
+      "copy-paste-template.moveBasketEntryDown",
+      (entry: BasketEntry) => basket.move(entry, 1)
+    )
+  );
 }
 
 export function deactivate() {}
@@ -0,0 +1,216 @@
+import * as vscode from "vscode";
+
+type OutlineKeyword = {
+  keyword: string;
+  kind: vscode.SymbolKind;
+};
+
+const DEF: OutlineKeyword = { keyword: "def", kind: vscode.SymbolKind.Function };
+const FUNCTION: OutlineKeyword = { keyword: "function", kind: vscode.SymbolKind.Function };
+const FN: OutlineKeyword = { keyword: "fn", kind: vscode.SymbolKind.Function };
+const FUNC: OutlineKeyword = { keyword: "func", kind: vscode.SymbolKind.Function };
+const SUB: OutlineKeyword = { keyword: "sub", kind: vscode.SymbolKind.Function };
+const CLASS: OutlineKeyword = { keyword: "class", kind: vscode.SymbolKind.Class };
+const INTERFACE: OutlineKeyword = { keyword: "interface", kind: vscode.SymbolKind.Interface };
+const MODULE: OutlineKeyword = { keyword: "module", kind: vscode.SymbolKind.Module };
+const STRUCT: OutlineKeyword = { keyword: "struct", kind: vscode.SymbolKind.Struct };
+const TRAIT: OutlineKeyword = { keyword: "trait", kind: vscode.SymbolKind.Interface };
+const IMPL: OutlineKeyword = { keyword: "impl", kind: vscode.SymbolKind.Class };
+const MOD: OutlineKeyword = { keyword: "mod", kind: vscode.SymbolKind.Module };
+const PACKAGE: OutlineKeyword = { keyword: "package", kind: vscode.SymbolKind.Package };
+
+const JAVASCRIPT_KEYWORDS = [FUNCTION, CLASS, INTERFACE];
+
+/** Definition keywords per language; other languages use the default set. */
+const OUTLINE_KEYWORDS: { [languageId: string]: OutlineKeyword[] } = {
+  python: [DEF, CLASS],
+  ruby: [DEF, CLASS, MODULE],
+  perl: [SUB, PACKAGE],
+  lua: [FUNCTION],
+  go: [FUNC],
+  rust: [FN, STRUCT, TRAIT, IMPL, MOD],
+  php: [FUNCTION, CLASS, INTERFACE, TRAIT],
+  shellscript: [FUNCTION],
+  javascript: JAVASCRIPT_KEYWORDS,
+  javascriptreact: JAVASCRIPT_KEYWORDS,
+  typescript: JAVASCRIPT_KEYWORDS,
+  typescriptreact: JAVASCRIPT_KEYWORDS,
+};
+
+const DEFAULT_OUTLINE_KEYWORDS = [DEF, CLASS, FUNCTION, FN, FUNC, SUB];
+
+const MODIFIERS =
+  "(?:(?:export|default|public|private|protected|internal|static|async|abstract|final|override|unsafe|local|pub(?:\\([^)]*\\))?)\\s+)*";
+
+const CONTAINER_KINDS = new Set<vscode.SymbolKind>([
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Struct,
+]);
+
+const TAB_WIDTH = 4;
+
+const definitionPatternCache = new Map<string, RegExp>();
+
+function getOutlineKeywords(languageId: string): OutlineKeyword[] {
+  return OUTLINE_KEYWORDS[languageId] ?? DEFAULT_OUTLINE_KEYWORDS;
+}
+
+function getDefinitionPattern(languageId: string): RegExp {
+  let pattern = definitionPatternCache.get(languageId);
+  if (!pattern) {
+    const keywords = getOutlineKeywords(languageId)
+      .map(({ keyword }) => keyword)
+      .join("|");
+    // Go methods put the receiver between `func` and the name.
+    pattern = new RegExp(
+      `^${MODIFIERS}(${keywords})\\*?\\s+(?:\\([^)]*\\)\\s*)?([A-Za-z_$][\\w$]*(?:[.:][A-Za-z_$][\\w$]*)*[?!]?)`
+    );
+    definitionPatternCache.set(languageId, pattern);
+  }
+  return pattern;
+}
+
+function getIndentWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if (char === " ") {
+      width += 1;
+    } else if (char === "\t") {
+      width += TAB_WIDTH;
+    } else {
+      break;
+    }
+  }
+  return width;
+}
+
+/**
+ * Net number of opened brackets on a line, ignoring brackets inside simple
+ * string literals.
+ */
+export function countBracketDelta(text: string): number {
+  let delta = 0;
+  let quote: string | undefined;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === "\\") {
+        index += 1;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if (char === "(" || char === "[" || char === "{") {
+      delta += 1;
+    } else if (char === ")" || char === "]" || char === "}") {
+      delta -= 1;
+    }
+  }
+  return delta;
+}
+
+function findBlockEndLine(
+  document: vscode.TextDocument,
+  startLine: number,
+  indent: number
+): number {
+  // Signatures may continue over several lines while brackets are open.
+  let headerEndLine = startLine;
+  let depth = countBracketDelta(document.lineAt(startLine).text);
+  while (depth > 0 && headerEndLine + 1 < document.lineCount) {
+    headerEndLine += 1;
+    depth += countBracketDelta(document.lineAt(headerEndLine).text);
+  }
+
+  let endLine = headerEndLine;
+  for (let line = headerEndLine + 1; line < document.lineCount; line += 1) {
+    const text = document.lineAt(line).text;
+    const trimmed = text.trim();
+    if (trimmed.length === 0) {
+      continue;
+    }
+
+    const lineIndent = getIndentWidth(text);
+    if (lineIndent > indent) {
+      endLine = line;
+      continue;
+    }
+    // Closing lines of brace, Ruby and Lua blocks belong to the block.
+    if (lineIndent === indent && /^(?:[}\])]|end\b)/.test(trimmed)) {
+      endLine = line;
+    }
+    break;
+  }
+  return endLine;
+}
+
+/**
+ * Infers a symbol tree from definition keywords and indentation, for
+ * documents without a symbol provider. Functions nested in classes, structs
+ * or interfaces are reported as methods.
+ */
+export function outlineDocument(
+  document: vscode.TextDocument
+): vscode.DocumentSymbol[] {
+  const pattern = getDefinitionPattern(document.languageId);
+  const roots: vscode.DocumentSymbol[] = [];
+  const stack: { symbol: vscode.DocumentSymbol; indent: number }[] = [];
+
+  for (let line = 0; line < document.lineCount; line += 1) {
+    const text = document.lineAt(line).text;
+    const trimmed = text.trimStart();
+    const match = pattern.exec(trimmed);
+    if (!match) {
+      continue;
+    }
+
+    const indent = getIndentWidth(text);
+    while (
+      stack.length > 0 &&
+      (stack[stack.length - 1].indent >= indent ||
+        stack[stack.length - 1].symbol.range.end.line < line)
+    ) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1]?.symbol;
+    const keyword = getOutlineKeywords(document.languageId).find(
+      (candidate) => candidate.keyword === match[1]
+    );
+    const kind =
+      keyword?.kind === vscode.SymbolKind.Function &&
+      parent &&
+      CONTAINER_KINDS.has(parent.kind)
+        ? vscode.SymbolKind.Method
+        : keyword?.kind ?? vscode.SymbolKind.Function;
+
+    const endLine = findBlockEndLine(document, line, indent);
+    const leadingWhitespace = text.length - trimmed.length;
+    const nameStart = leadingWhitespace + match.index + match[0].length - match[2].length;
+    const symbol = new vscode.DocumentSymbol(
+      match[2],
+      "",
+      kind,
+      new vscode.Range(
+        line,
+        leadingWhitespace,
+        endLine,
+        document.lineAt(endLine).text.length
+      ),
+      new vscode.Range(line, nameStart, line, nameStart + match[2].length)
+    );
+
+    if (parent) {
+      parent.children.push(symbol);
+    } else {
+      roots.push(symbol);
+    }
+    stack.push({ symbol, indent });
+  }
+
+  return roots;
+}
@@ -0,0 +1,345 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+type IgnoreRule = {
+  baseDir: string;
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+};
+
+export type CollectedFiles = {
+  files: vscode.Uri[];
+  skippedBinaryFiles: vscode.Uri[];
+  deniedFiles: vscode.Uri[];
+  /** The walk stopped because going past a limit was declined. */
+  cancelled: boolean;
+};
+
+export type CollectLimits = {
+  /** Number of text files; `0` for no limit. */
+  maxFiles: number;
+  /** Total size of the text files in bytes; `0` for no limit. */
+  maxBytes: number;
+  /**
+   * Asked once, when the next file would go past `exceeded`. Resolving to
+   * `false` stops the walk.
+   */
+  confirmOverLimit: (exceeded: "maxFiles" | "maxBytes") => Promise<boolean>;
+};
+
+const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * Converts a glob (as used by `.gitignore` and `files.exclude`) to a regular
+ * expression body. Supports `*`, `?`, `**` and `[...]` classes.
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = "";
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (char === "*") {
+      if (glob[index + 1] === "*") {
+        const followedBySlash = glob[index + 2] === "/";
+        source += followedBySlash ? "(?:.*/)?" : ".*";
+        index += followedBySlash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+      continue;
+    }
+    if (char === "?") {
+      source += "[^/]";
+      continue;
+    }
+    if (char === "[") {
+      const closeIndex = glob.indexOf("]", index + 2);
+      if (closeIndex > 0) {
+        let body = glob.slice(index + 1, closeIndex);
+        if (body.startsWith("!")) {
+          body = `^${body.slice(1)}`;
+        }
+        source += `[${body}]`;
+        index = closeIndex;
+        continue;
+      }
+    }
+    if (char === "{") {
+      const closeIndex = glob.indexOf("}", index + 1);
+      if (closeIndex > 0) {
+        const alternatives = glob
+          .slice(index + 1, closeIndex)
+          .split(",")
+          .map(globToRegExpSource);
+        source += `(?:${alternatives.join("|")})`;
+        index = closeIndex;
+        continue;
+      }
+    }
+    if (char === "\\" && index + 1 < glob.length) {
+      index += 1;
+      source += glob[index].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      continue;
+    }
+    source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  }
+  return source;
+}
+
+export function parseGitignore(content: string, baseDir: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line.length === 0 || line.startsWith("#")) {
+      continue;
+    }
+
+    const negate = line.startsWith("!");
+    if (negate) {
+      line = line.slice(1);
+    }
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+
+    // Patterns with a slash (other than a trailing one) are relative to the
+    // .gitignore directory; others match at any depth.
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) {
+      line = line.slice(1);
+    }
+    if (line.length === 0) {
+      continue;
+    }
+
+    const body = globToRegExpSource(line);
+    rules.push({
+      baseDir,
+      pattern: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negate,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+export function isIgnoredByRules(
+  rules: IgnoreRule[],
+  filePath: string,
+  isDirectory: boolean
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    const relativePath = path.posix.relative(rule.baseDir, filePath);
+    if (relativePath.startsWith("..") || relativePath.length === 0) {
+      continue;
+    }
+    if (rule.pattern.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+export function isBinaryContent(content: Uint8Array): boolean {
+  const length = Math.min(content.length, BINARY_SNIFF_LENGTH);
+  for (let index = 0; index < length; index += 1) {
+    if (content[index] === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Reads the size of a file and its first bytes, enough to tell text from
+ * binary without loading large files. File systems other than the local one
+ * can only read whole files.
+ */
+async function readFileHead(
+  uri: vscode.Uri
+): Promise<{ size: number; head: Uint8Array }> {
+  if (uri.scheme !== "file") {
+    const content = await vscode.workspace.fs.readFile(uri);
+    return { size: content.length, head: content };
+  }
+
+  const handle = await fs.promises.open(uri.fsPath, "r");
+  try {
+    const { size } = await handle.stat();
+    const head = new Uint8Array(Math.min(size, BINARY_SNIFF_LENGTH));
+    const { bytesRead } = await handle.read(head, 0, head.length, 0);
+    return { size, head: head.subarray(0, bytesRead) };
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readGitignoreRules(directory: vscode.Uri): Promise<IgnoreRule[]> {
+  try {
+    const content = await vscode.workspace.fs.readFile(
+      vscode.Uri.joinPath(directory, ".gitignore")
+    );
+    return parseGitignore(new TextDecoder().decode(content), directory.path);
+  } catch {
+    return [];
+  }
+}
+
+async function readAncestorGitignoreRules(
+  directory: vscode.Uri
+): Promise<IgnoreRule[]> {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(directory);
+  if (!workspaceFolder) {
+    return [];
+  }
+
+  const rootPath = workspaceFolder.uri.path;
+  const ancestors: vscode.Uri[] = [];
+  let current = path.posix.dirname(directory.path);
+  while (current.startsWith(rootPath) && current !== directory.path) {
+    ancestors.unshift(directory.with({ path: current }));
+    if (current === rootPath) {
+      break;
+    }
+    current = path.posix.dirname(current);
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const ancestor of ancestors) {
+    rules.push(...(await readGitignoreRules(ancestor)));
+  }
+  return rules;
+}
+
+function createFilesExcludeMatcher(
+  resource: vscode.Uri
+): (uri: vscode.Uri) => boolean {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(resource);
+  const excludes =
+    vscode.workspace
+      .getConfiguration("files", resource)
+      .get<{ [glob: string]: unknown }>("exclude") ?? {};
+  const patterns = Object.entries(excludes)
+    .filter(([, enabled]) => enabled === true)
+    .map(([glob]) => new RegExp(`^${globToRegExpSource(glob)}$`));
+
+  return (uri: vscode.Uri) => {
+    const relativePath = workspaceFolder
+      ? path.posix.relative(workspaceFolder.uri.path, uri.path)
+      : uri.path;
+    return patterns.some((pattern) => pattern.test(relativePath));
+  };
+}
+
+/**
+ * Expands the given files and folders into the text files to copy. Folders are
+ * walked recursively, skipping entries matched by `.gitignore` files or by
+ * `files.exclude`; binary files and files rejected by `isDenied` are reported
+ * separately. Only the first bytes of each file are read. With `limits`, the
+ * walk asks before collecting more files or bytes than allowed.
+ */
+export async function collectFiles(
+  uris: vscode.Uri[],
+  isDenied: (uri: vscode.Uri) => boolean = () => false,
+  limits?: CollectLimits
+): Promise<CollectedFiles> {
+  const files: vscode.Uri[] = [];
+  const skippedBinaryFiles: vscode.Uri[] = [];
+  const deniedFiles: vscode.Uri[] = [];
+  const seen = new Set<string>();
+  let byteCount = 0;
+  let overLimitConfirmed = false;
+  let cancelled = false;
+
+  const isWithinLimits = async (size: number): Promise<boolean> => {
+    if (!limits || overLimitConfirmed) {
+      return true;
+    }
+    const exceeded =
+      limits.maxFiles > 0 && files.length >= limits.maxFiles
+        ? "maxFiles"
+        : limits.maxBytes > 0 && byteCount + size > limits.maxBytes
+          ? "maxBytes"
+          : undefined;
+    if (!exceeded) {
+      return true;
+    }
+    overLimitConfirmed = await limits.confirmOverLimit(exceeded);
+    cancelled = !overLimitConfirmed;
+    return overLimitConfirmed;
+  };
+
+  const addFile = async (uri: vscode.Uri) => {
+    if (cancelled || seen.has(uri.toString())) {
+      return;
+    }
+    seen.add(uri.toString());
+
+    if (isDenied(uri)) {
+      deniedFiles.push(uri);
+      return;
+    }
+
+    const { size, head } = await readFileHead(uri);
+    if (isBinaryContent(head)) {
+      skippedBinaryFiles.push(uri);
+    } else if (await isWithinLimits(size)) {
+      files.push(uri);
+      byteCount += size;
+    }
+  };
+
+  const walk = async (
+    directory: vscode.Uri,
+    inheritedRules: IgnoreRule[],
+    isExcluded: (uri: vscode.Uri) => boolean
+  ) => {
+    const rules = [...inheritedRules, ...(await readGitignoreRules(directory))];
+    const entries = (await vscode.workspace.fs.readDirectory(directory)).sort(
+      ([a], [b]) => a.localeCompare(b)
+    );
+    for (const [name, type] of entries) {
+      if (cancelled) {
+        return;
+      }
+      const child = vscode.Uri.joinPath(directory, name);
+      const isDirectory = (type & vscode.FileType.Directory) !== 0;
+      if (
+        name === ".git" ||
+        isExcluded(child) ||
+        isIgnoredByRules(rules, child.path, isDirectory)
+      ) {
+        continue;
+      }
+      if (isDirectory) {
+        await walk(child, rules, isExcluded);
+      } else if ((type & vscode.FileType.File) !== 0) {
+        await addFile(child);
+      }
+    }
+  };
+
+  for (const uri of uris) {
+    if (cancelled) {
+      break;
+    }
+    const stat = await vscode.workspace.fs.stat(uri);
+    if ((stat.type & vscode.FileType.Directory) !== 0) {
+      await walk(
+        uri,
+        await readAncestorGitignoreRules(uri),
+        createFilesExcludeMatcher(uri)
+      );
+    } else {
+      await addFile(uri);
+    }
+  }
+
+  return { files, skippedBinaryFiles, deniedFiles, cancelled };
+}
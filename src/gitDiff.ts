@@ -0,0 +1,328 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the closing `@@`, usually the enclosing function header. */
+  section: string;
+  /** Hunk body lines, each prefixed with ` `, `+`, `-` or `\`. */
+  lines: string[];
+};
+
+export type DiffFile = {
+  /** Repository-relative path before the change; undefined for added files. */
+  oldPath?: string;
+  /** Repository-relative path after the change; undefined for deleted files. */
+  newPath?: string;
+  binary: boolean;
+  hunks: DiffHunk[];
+};
+
+export type GitChanges = {
+  root: string;
+  files: DiffFile[];
+};
+
+/** 1-based, inclusive line range on the new side of a diff. */
+export type LineSpan = {
+  startLine: number;
+  endLine: number;
+};
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Bytes git inspects for a NUL byte to decide that a file is binary. */
+const BINARY_PROBE_BYTES = 8000;
+
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, maxBuffer: GIT_MAX_BUFFER },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
+/** Strips the `a/` or `b/` prefix and C-style quoting from a diff path. */
+function parseDiffPath(text: string): string | undefined {
+  let value = text.replace(/\t.*$/, "");
+  if (value === "/dev/null") {
+    return undefined;
+  }
+  if (value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1).replace(/\\(["\\])/g, "$1");
+  }
+  return value.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parses `git diff` output into files and hunks. Hunk bodies are read by
+ * their line counts, so removed lines that look like `---` headers stay in
+ * the hunk.
+ */
+export function parseUnifiedDiff(patch: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | undefined;
+  let hunk: DiffHunk | undefined;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  for (const line of patch.split(/\r?\n/)) {
+    if (hunk && (remainingOld > 0 || remainingNew > 0 || line.startsWith("\\"))) {
+      hunk.lines.push(line);
+      if (line.startsWith("-")) {
+        remainingOld -= 1;
+      } else if (line.startsWith("+")) {
+        remainingNew -= 1;
+      } else if (!line.startsWith("\\")) {
+        remainingOld -= 1;
+        remainingNew -= 1;
+      }
+      continue;
+    }
+    hunk = undefined;
+
+    if (line.startsWith("diff --git ")) {
+      const match = /^diff --git ("?a\/.*?"?) ("?b\/.*"?)$/.exec(line);
+      file = {
+        oldPath: match ? parseDiffPath(match[1]) : undefined,
+        newPath: match ? parseDiffPath(match[2]) : undefined,
+        binary: false,
+        hunks: [],
+      };
+      files.push(file);
+    } else if (!file) {
+      continue;
+    } else if (line.startsWith("--- ")) {
+      file.oldPath = parseDiffPath(line.slice(4));
+    } else if (line.startsWith("+++ ")) {
+      file.newPath = parseDiffPath(line.slice(4));
+    } else if (line.startsWith("new file mode")) {
+      file.oldPath = undefined;
+    } else if (line.startsWith("deleted file mode")) {
+      file.newPath = undefined;
+    } else if (line.startsWith("Binary files ")) {
+      file.binary = true;
+    } else {
+      const match = HUNK_HEADER_PATTERN.exec(line);
+      if (match) {
+        hunk = {
+          oldStart: Number(match[1]),
+          oldLines: match[2] === undefined ? 1 : Number(match[2]),
+          newStart: Number(match[3]),
+          newLines: match[4] === undefined ? 1 : Number(match[4]),
+          section: match[5],
+          lines: [],
+        };
+        remainingOld = hunk.oldLines;
+        remainingNew = hunk.newLines;
+        file.hunks.push(hunk);
+      }
+    }
+  }
+  return files;
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+  const section = hunk.section ? ` ${hunk.section}` : "";
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${section}`;
+}
+
+/** Formats a side of a hunk as `start-end`, or a single line number. */
+export function formatHunkLineRange(start: number, count: number): string {
+  return count > 1 ? `${start}-${start + count - 1}` : start.toString();
+}
+
+/** Text of the hunk as it reads after the change, without diff prefixes. */
+export function getHunkNewText(hunk: DiffHunk): string {
+  return hunk.lines
+    .filter((line) => line.startsWith(" ") || line.startsWith("+"))
+    .map((line) => line.slice(1))
+    .join("\n");
+}
+
+/**
+ * New-side line number of the first added or removed line. Removals report
+ * the line that follows them.
+ */
+export function getFirstChangedLine(hunk: DiffHunk): number {
+  let line = hunk.newStart;
+  for (const text of hunk.lines) {
+    if (text.startsWith("+") || text.startsWith("-")) {
+      return Math.max(line, 1);
+    }
+    if (text.startsWith(" ")) {
+      line += 1;
+    }
+  }
+  return Math.max(hunk.newStart, 1);
+}
+
+/**
+ * Widens hunks to the span `getSpan` reports for them, filling the gaps with
+ * unchanged lines from `getNewLine`. Consecutive hunks that report the same
+ * span are merged into one hunk; hunks without a span are kept as they are.
+ */
+export function expandHunks<T extends LineSpan>(
+  hunks: DiffHunk[],
+  getSpan: (hunk: DiffHunk) => T | undefined,
+  getNewLine: (line: number) => string
+): { hunk: DiffHunk; span?: T }[] {
+  const groups: { hunks: DiffHunk[]; span?: T }[] = [];
+  for (const hunk of hunks) {
+    const span = getSpan(hunk);
+    const previous = groups[groups.length - 1];
+    if (
+      span &&
+      previous?.span &&
+      previous.span.startLine === span.startLine &&
+      previous.span.endLine === span.endLine
+    ) {
+      previous.hunks.push(hunk);
+    } else {
+      groups.push({ hunks: [hunk], span });
+    }
+  }
+
+  return groups.map(({ hunks: grouped, span }) => {
+    if (!span) {
+      return { hunk: grouped[0] };
+    }
+
+    const contextLines = (from: number, to: number) => {
+      const lines: string[] = [];
+      for (let line = from; line <= to; line += 1) {
+        lines.push(` ${getNewLine(line)}`);
+      }
+      return lines;
+    };
+
+    const first = grouped[0];
+    const newStart = Math.min(span.startLine, first.newStart);
+    const lines = contextLines(newStart, first.newStart - 1);
+    let nextLine = first.newStart;
+    for (const hunk of grouped) {
+      lines.push(...contextLines(nextLine, hunk.newStart - 1));
+      lines.push(...hunk.lines);
+      nextLine = hunk.newStart + hunk.newLines;
+    }
+    lines.push(...contextLines(nextLine, span.endLine));
+
+    const oldLines = lines.filter((line) => /^[ -]/.test(line)).length;
+    const newLines = lines.filter((line) => /^[ +]/.test(line)).length;
+    return {
+      hunk: {
+        oldStart: first.oldStart - (first.newStart - newStart),
+        oldLines,
+        newStart,
+        newLines,
+        section: first.section,
+        lines,
+      },
+      span,
+    };
+  });
+}
+
+/**
+ * Diff of an untracked file, as `git diff` shows a new file: one hunk that
+ * adds every line.
+ */
+export function createAddedFileDiff(filePath: string, content: Uint8Array): DiffFile {
+  if (content.subarray(0, BINARY_PROBE_BYTES).includes(0)) {
+    return { newPath: filePath, binary: true, hunks: [] };
+  }
+  const text = new TextDecoder().decode(content);
+  if (text.length === 0) {
+    return { newPath: filePath, binary: false, hunks: [] };
+  }
+
+  const lines = text.split(/\r?\n/);
+  const hasFinalNewline = lines[lines.length - 1] === "";
+  if (hasFinalNewline) {
+    lines.pop();
+  }
+  return {
+    newPath: filePath,
+    binary: false,
+    hunks: [
+      {
+        oldStart: 0,
+        oldLines: 0,
+        newStart: 1,
+        newLines: lines.length,
+        section: "",
+        lines: [
+          ...lines.map((line) => `+${line}`),
+          ...(hasFinalNewline ? [] : ["\\ No newline at end of file"]),
+        ],
+      },
+    ],
+  };
+}
+
+/** HEAD, or the empty tree in a repository without commits. */
+async function resolveDiffBase(directory: string): Promise<string> {
+  try {
+    return (await runGit(["rev-parse", "--verify", "HEAD"], directory)).trim();
+  } catch {
+    return (await runGit(["hash-object", "-t", "tree", os.devNull], directory)).trim();
+  }
+}
+
+/**
+ * Reads the uncommitted changes of the git repository that contains
+ * `directory`, limited to `fileName` in that directory when given. Working
+ * changes are everything not yet committed: staged and unstaged edits
+ * against HEAD plus untracked files that are not ignored. `staged` reads
+ * only what the index changes against HEAD.
+ */
+export async function readGitChanges(
+  directory: string,
+  staged: boolean,
+  fileName?: string
+): Promise<GitChanges> {
+  const root = (await runGit(["rev-parse", "--show-toplevel"], directory)).trim();
+  const args = ["diff", "--no-color", "--no-ext-diff"];
+  args.push(staged ? "--cached" : await resolveDiffBase(directory));
+  // Pathspecs are relative to `directory`; the output is relative to the root.
+  const pathspec = fileName ? ["--", fileName] : [];
+  const files = parseUnifiedDiff(await runGit([...args, ...pathspec], directory));
+  if (staged) {
+    return { root, files };
+  }
+
+  const untracked = await runGit(
+    ["ls-files", "--others", "--exclude-standard", "--full-name", "-z", ...pathspec],
+    directory
+  );
+  for (const filePath of untracked.split("\0").filter(Boolean)) {
+    try {
+      const content = await fs.promises.readFile(path.join(root, filePath));
+      files.push(createAddedFileDiff(filePath, content));
+    } catch {
+      // Deleted or unreadable since git listed it.
+    }
+  }
+  return { root, files };
+}
+
+/** Reads the staged content of a repository-relative path. */
+export function readIndexFile(root: string, filePath: string): Promise<string> {
+  return runGit(["show", `:${filePath}`], root);
+}
@@ -0,0 +1,253 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export type GitHostType = "github" | "gitlab" | "bitbucket" | "gitea";
+
+export type GitMetadata = {
+  /** Working tree root. */
+  root: string;
+  /** Checked-out branch; empty when HEAD is detached. */
+  branch: string;
+  /** Full commit hash of HEAD; empty in a repository without commits. */
+  commit: string;
+  /** URL of the branch's remote, or of `origin`, or of the first remote. */
+  remoteUrl?: string;
+};
+
+/** Metadata already read, by working tree root. */
+export type GitMetadataCache = Map<string, GitMetadata>;
+
+/** 1-based, inclusive line span of a permalink anchor. */
+export type PermalinkLines = {
+  startLine: number;
+  endLine: number;
+};
+
+const KNOWN_HOSTS: { pattern: RegExp; type: GitHostType }[] = [
+  { pattern: /(^|\.)github\b/, type: "github" },
+  { pattern: /(^|\.)gitlab\b/, type: "gitlab" },
+  { pattern: /(^|\.)bitbucket\b/, type: "bitbucket" },
+  { pattern: /(^|\.)(?:gitea|codeberg)\b/, type: "gitea" },
+];
+
+/** Blob path segment and line anchors of each host's file view. */
+const PERMALINK_FORMATS: {
+  [type in GitHostType]: {
+    blobPath: string;
+    lineAnchor: (line: number) => string;
+    rangeAnchor: (startLine: number, endLine: number) => string;
+  };
+} = {
+  github: {
+    blobPath: "blob",
+    lineAnchor: (line) => `#L${line}`,
+    rangeAnchor: (startLine, endLine) => `#L${startLine}-L${endLine}`,
+  },
+  gitlab: {
+    blobPath: "-/blob",
+    lineAnchor: (line) => `#L${line}`,
+    rangeAnchor: (startLine, endLine) => `#L${startLine}-${endLine}`,
+  },
+  bitbucket: {
+    blobPath: "src",
+    lineAnchor: (line) => `#lines-${line}`,
+    rangeAnchor: (startLine, endLine) => `#lines-${startLine}:${endLine}`,
+  },
+  gitea: {
+    blobPath: "src/commit",
+    lineAnchor: (line) => `#L${line}`,
+    rangeAnchor: (startLine, endLine) => `#L${startLine}-L${endLine}`,
+  },
+};
+
+function readFile(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the `.git` directory above `filePath`. Worktrees and submodules use a
+ * `.git` file pointing at the real directory; their refs and config live in
+ * the directory named by its `commondir` file.
+ */
+function findGitDirectories(
+  filePath: string
+): { root: string; gitDir: string; commonDir: string } | undefined {
+  let directory = path.dirname(filePath);
+  for (;;) {
+    const dotGit = path.join(directory, ".git");
+    let gitDir: string | undefined;
+    try {
+      if (fs.statSync(dotGit).isDirectory()) {
+        gitDir = dotGit;
+      } else {
+        const pointer = /^gitdir:\s*(.+)$/m.exec(readFile(dotGit) ?? "");
+        gitDir = pointer ? path.resolve(directory, pointer[1].trim()) : undefined;
+      }
+    } catch {
+      gitDir = undefined;
+    }
+    if (gitDir) {
+      const commonDir = readFile(path.join(gitDir, "commondir"))?.trim();
+      return {
+        root: directory,
+        gitDir,
+        commonDir: commonDir ? path.resolve(gitDir, commonDir) : gitDir,
+      };
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+function resolveRef(gitDir: string, commonDir: string, ref: string): string {
+  for (const directory of [gitDir, commonDir]) {
+    const loose = readFile(path.join(directory, ref))?.trim();
+    if (loose) {
+      return loose;
+    }
+  }
+  const packedRefs = readFile(path.join(commonDir, "packed-refs")) ?? "";
+  for (const line of packedRefs.split(/\r?\n/)) {
+    const [hash, name] = line.split(" ");
+    if (name === ref && /^[0-9a-f]{40,64}$/.test(hash)) {
+      return hash;
+    }
+  }
+  return "";
+}
+
+/** Reads `[section "name"]` key/value pairs from a git config file. */
+export function parseGitConfig(text: string): Map<string, Map<string, string>> {
+  const sections = new Map<string, Map<string, string>>();
+  let current: Map<string, string> | undefined;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+    const header = /^\[([\w.-]+)(?:\s+"((?:[^"\\]|\\.)*)")?\]$/.exec(line);
+    if (header) {
+      const name =
+        header[2] === undefined
+          ? header[1].toLowerCase()
+          : `${header[1].toLowerCase()} ${header[2].replace(/\\(.)/g, "$1")}`;
+      current = sections.get(name) ?? new Map<string, string>();
+      sections.set(name, current);
+      continue;
+    }
+    const entry = /^([\w-]+)\s*(?:=\s*(.*))?$/.exec(line);
+    if (entry && current) {
+      const value = (entry[2] ?? "true").replace(/^"(.*)"$/, "$1");
+      current.set(entry[1].toLowerCase(), value);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Reads the branch, HEAD commit and remote URL of the repository containing
+ * `filePath` straight from its `.git` directory. Returns `undefined` outside
+ * a repository. With a `cache`, each repository is read once.
+ */
+export function readGitMetadata(
+  filePath: string,
+  cache?: GitMetadataCache
+): GitMetadata | undefined {
+  const directories = findGitDirectories(filePath);
+  if (!directories) {
+    return undefined;
+  }
+  const { root, gitDir, commonDir } = directories;
+  const cached = cache?.get(root);
+  if (cached) {
+    return cached;
+  }
+
+  const head = readFile(path.join(gitDir, "HEAD"))?.trim() ?? "";
+  const headRef = /^ref:\s*(\S+)$/.exec(head)?.[1];
+  const branch = headRef?.replace(/^refs\/heads\//, "") ?? "";
+  const commit = headRef ? resolveRef(gitDir, commonDir, headRef) : head;
+
+  const config = parseGitConfig(readFile(path.join(commonDir, "config")) ?? "");
+  const remoteName =
+    (branch && config.get(`branch ${branch}`)?.get("remote")) || "origin";
+  const remotes = [...config.entries()].filter(([name]) =>
+    name.startsWith("remote ")
+  );
+  const remote =
+    config.get(`remote ${remoteName}`) ??
+    config.get("remote origin") ??
+    remotes[0]?.[1];
+
+  const metadata = { root, branch, commit, remoteUrl: remote?.get("url") };
+  cache?.set(root, metadata);
+  return metadata;
+}
+
+/**
+ * Turns an SSH, scp-style or HTTP(S) remote URL into the host and the
+ * repository path, e.g. `git@github.com:owner/repo.git` into
+ * `github.com` and `owner/repo`.
+ */
+export function parseRemoteUrl(
+  remoteUrl: string
+): { host: string; repository: string } | undefined {
+  const url =
+    /^[a-z][\w+.-]*:\/\/(?:[^@/]*@)?([^/:]+)(?::\d+)?\/(.+)$/i.exec(remoteUrl) ??
+    /^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/.exec(remoteUrl);
+  if (!url) {
+    return undefined;
+  }
+  const repository = url[2].replace(/\.git\/?$/, "").replace(/\/+$/, "");
+  return repository ? { host: url[1].toLowerCase(), repository } : undefined;
+}
+
+export function detectGitHost(
+  host: string,
+  hostTypes: { [host: string]: GitHostType } = {}
+): GitHostType | undefined {
+  return (
+    hostTypes[host] ??
+    KNOWN_HOSTS.find(({ pattern }) => pattern.test(host))?.type
+  );
+}
+
+/**
+ * Builds a blob URL for `relativePath` at `commit` on the remote's host, with
+ * the host's line anchor when `lines` is given. Returns an empty string for
+ * remotes it cannot place.
+ */
+export function buildPermalink(
+  remoteUrl: string,
+  commit: string,
+  relativePath: string,
+  lines?: PermalinkLines,
+  hostTypes?: { [host: string]: GitHostType }
+): string {
+  const remote = parseRemoteUrl(remoteUrl);
+  const hostType = remote && detectGitHost(remote.host, hostTypes);
+  if (!remote || !hostType || !commit) {
+    return "";
+  }
+
+  const base = `https://${remote.host}/${remote.repository}`;
+  const filePath = relativePath
+    .split(/[\\/]/)
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+  const format = PERMALINK_FORMATS[hostType];
+  const anchor = !lines
+    ? ""
+    : lines.startLine === lines.endLine
+      ? format.lineAnchor(lines.startLine)
+      : format.rangeAnchor(lines.startLine, lines.endLine);
+  return `${base}/${format.blobPath}/${commit}/${filePath}${anchor}`;
+}
@@ -0,0 +1,389 @@
+import * as vscode from "vscode";
+import { countBracketDelta } from "./fallbackOutliner";
+
+export type ImportBlock = {
+  startLine: number;
+  endLine: number;
+};
+
+const JAVASCRIPT_LIKE_LANGUAGE_IDS = new Set([
+  "javascript",
+  "javascriptreact",
+  "typescript",
+  "typescriptreact",
+]);
+
+// `export {` may open a re-export list whose `from` is on a later line;
+// `isLocalExportList` rejects the whole statement when it has none.
+const JAVASCRIPT_IMPORT =
+  /^(?:import\b|export\s+(?:\*|\{[^}]*\}?)\s*(?:from\b|$)|(?:const|let|var)\s+[^=]+=\s*require\s*\()/;
+
+/** Lines that start an import statement, per language. */
+const IMPORT_PATTERNS: { [languageId: string]: RegExp } = {
+  javascript: JAVASCRIPT_IMPORT,
+  javascriptreact: JAVASCRIPT_IMPORT,
+  typescript: JAVASCRIPT_IMPORT,
+  typescriptreact: JAVASCRIPT_IMPORT,
+  python: /^(?:import|from)\s/,
+  go: /^import\b/,
+  rust: /^(?:pub(?:\([^)]*\))?\s+)?(?:use\s|extern\s+crate\s|mod\s+\w+\s*;)/,
+  java: /^import\s/,
+  kotlin: /^import\s/,
+  scala: /^import\s/,
+  groovy: /^import\s/,
+  c: /^#\s*include\b/,
+  cpp: /^(?:#\s*include\b|import\s|using\s+namespace\s)/,
+  "objective-c": /^#\s*(?:include|import)\b|^@import\s/,
+  "objective-cpp": /^#\s*(?:include|import)\b|^@import\s/,
+  csharp: /^(?:global\s+)?using\s+(?!\()/,
+  fsharp: /^open\s/,
+  php: /^(?:use\s|(?:require|require_once|include|include_once)\b)/,
+  ruby: /^(?:require|require_relative|load)\b/,
+  lua: /^(?:local\s+[\w,\s]+=\s*)?require\b/,
+  perl: /^(?:use|require)\s/,
+  swift: /^(?:@testable\s+)?import\s/,
+  dart: /^(?:import|export|part)\s/,
+  elixir: /^(?:import|alias|require|use)\s/,
+  haskell: /^import\s/,
+  shellscript: /^(?:source|\.)\s/,
+  r: /^(?:library|require)\s*\(/,
+};
+
+const DEFAULT_IMPORT_PATTERN =
+  /^(?:import\s|from\s+\S+\s+import\s|use\s|using\s|require\b|#\s*include\b)/;
+
+/** Lines allowed before the first import: package names, pragmas and the like. */
+const PREAMBLE_PATTERN =
+  /^(?:#!|<\?php|package\s|library\s|namespace\s+[\w\\.]+\s*;|module\s+[\w.]+\s*(?:;|where\b|$)|["']use (?:strict|client|server)["'];?$|@file:|declare\s*\(|#\s*pragma\s+once\b|#\s*(?:ifndef|define)\s+\w+$)/;
+
+const COMMENT_PREFIXES = ["//", "/*", "*", "--", ";"];
+
+/** Languages where `#` starts a comment rather than a preprocessor directive. */
+const HASH_COMMENT_LANGUAGE_IDS = new Set([
+  "python",
+  "ruby",
+  "perl",
+  "shellscript",
+  "r",
+  "elixir",
+  "php",
+  "powershell",
+  "julia",
+  "coffeescript",
+  "yaml",
+  "toml",
+  "makefile",
+  "dockerfile",
+]);
+
+function isCommentLine(trimmed: string, languageId: string): boolean {
+  return (
+    COMMENT_PREFIXES.some((prefix) => trimmed.startsWith(prefix)) ||
+    (trimmed.startsWith("#") && HASH_COMMENT_LANGUAGE_IDS.has(languageId))
+  );
+}
+
+/** `export { a, b }` without `from` exports local names; it imports nothing. */
+function isLocalExportList(languageId: string, statement: string): boolean {
+  return (
+    JAVASCRIPT_LIKE_LANGUAGE_IDS.has(languageId) &&
+    /^export\s*\{/.test(statement) &&
+    !/\bfrom\s*["'`]/.test(statement)
+  );
+}
+
+/** Skips a Python module docstring starting at `line`; returns its last line. */
+function findModuleDocstringEndLine(
+  document: vscode.TextDocument,
+  line: number
+): number | undefined {
+  const trimmed = document.lineAt(line).text.trim();
+  const quote = trimmed.match(/^[rubfRUBF]*("""|''')/)?.[1];
+  if (!quote) {
+    return undefined;
+  }
+  const afterOpening = trimmed.slice(trimmed.indexOf(quote) + quote.length);
+  if (afterOpening.includes(quote)) {
+    return line;
+  }
+  for (let current = line + 1; current < document.lineCount; current += 1) {
+    if (document.lineAt(current).text.includes(quote)) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the import/use/require/include section at the top of the document.
+ * Comments, blank lines and preamble lines (shebangs, `package`, `"use
+ * strict"`, docstrings) before the first import are skipped; the section ends
+ * at the first line that is neither an import nor a comment. Statements that
+ * span several lines, such as `import {\n  a,\n} from "x"` or Go's
+ * `import (...)`, are kept whole.
+ */
+export function findImportBlock(
+  document: vscode.TextDocument
+): ImportBlock | undefined {
+  const pattern = IMPORT_PATTERNS[document.languageId] ?? DEFAULT_IMPORT_PATTERN;
+  let startLine: number | undefined;
+  let endLine: number | undefined;
+
+  for (let line = 0; line < document.lineCount; line += 1) {
+    const trimmed = document.lineAt(line).text.trim();
+    if (trimmed.length === 0) {
+      continue;
+    }
+
+    if (pattern.test(trimmed)) {
+      const statementStartLine = line;
+      const statementLines = [trimmed];
+      let depth = countBracketDelta(trimmed);
+      while (depth > 0 && line + 1 < document.lineCount) {
+        line += 1;
+        statementLines.push(document.lineAt(line).text);
+        depth += countBracketDelta(document.lineAt(line).text);
+      }
+      if (isLocalExportList(document.languageId, statementLines.join("\n"))) {
+        break;
+      }
+      startLine ??= statementStartLine;
+      endLine = line;
+      continue;
+    }
+
+    if (startLine === undefined && document.languageId === "python") {
+      const docstringEndLine = findModuleDocstringEndLine(document, line);
+      if (docstringEndLine !== undefined) {
+        line = docstringEndLine;
+        continue;
+      }
+    }
+
+    const isPreamble = startLine === undefined && PREAMBLE_PATTERN.test(trimmed);
+    if (!isPreamble && !isCommentLine(trimmed, document.languageId)) {
+      break;
+    }
+  }
+
+  if (startLine === undefined || endLine === undefined) {
+    return undefined;
+  }
+  return { startLine, endLine };
+}
+
+function lastPathSegment(path: string): string {
+  const segments = path.split(/::|[./\\]/).filter((segment) => segment.length > 0);
+  return segments[segments.length - 1] ?? "";
+}
+
+/** Name bound by a list item such as `a as b`, `a: b` or `type a`. */
+function getListItemName(item: string): string | undefined {
+  const trimmed = item.trim().replace(/^type\s+/, "");
+  const alias =
+    trimmed.match(/\s+as\s+([\w$]+)$/)?.[1] ??
+    trimmed.match(/:\s*([\w$]+)$/)?.[1];
+  const name = alias ?? lastPathSegment(trimmed.split(/\s/)[0]);
+  // Wildcards bring unknown names into scope.
+  return /^[\w$]+$/.test(name) ? name : undefined;
+}
+
+function getListNames(list: string): string[] | undefined {
+  const items = list.split(",").filter((item) => item.trim().length > 0);
+  const names = items.map(getListItemName);
+  return names.every((name): name is string => name !== undefined)
+    ? names
+    : undefined;
+}
+
+function getJavaScriptImportedNames(statement: string): string[] | undefined {
+  const requireMatch = statement.match(
+    /^(?:const|let|var)\s+(.+?)\s*=\s*require\s*\(/
+  );
+  if (requireMatch) {
+    const binding = requireMatch[1].trim();
+    return binding.startsWith("{")
+      ? getListNames(binding.replace(/^\{|\}$/g, ""))
+      : [binding];
+  }
+
+  const clause = statement.match(/^import\s+(?:type\s+)?([\s\S]+?)\s+from\s/)?.[1];
+  if (!clause) {
+    return undefined;
+  }
+  const names: string[] = [];
+  const braceList = clause.match(/\{([\s\S]*)\}/)?.[1];
+  if (braceList !== undefined) {
+    names.push(...(getListNames(braceList) ?? []));
+  }
+  const namespace = clause.match(/\*\s*as\s+([\w$]+)/)?.[1];
+  if (namespace) {
+    names.push(namespace);
+  }
+  const defaultImport = clause.match(/^([\w$]+)\s*(?:,|$)/)?.[1];
+  if (defaultImport) {
+    names.push(defaultImport);
+  }
+  return names.length > 0 ? names : undefined;
+}
+
+function getPythonImportedNames(statement: string): string[] | undefined {
+  const flattened = statement.replace(/[()\\]/g, " ");
+  const fromList = flattened.match(/^from\s+\S+\s+import\s+([\s\S]+)$/)?.[1];
+  if (fromList !== undefined) {
+    return getListNames(fromList);
+  }
+  const importList = flattened.match(/^import\s+([\s\S]+)$/)?.[1];
+  return importList
+    ?.split(",")
+    .map(
+      (item) =>
+        item.trim().match(/\s+as\s+(\w+)$/)?.[1] ?? item.trim().split(".")[0]
+    );
+}
+
+function getRustImportedNames(statement: string): string[] | undefined {
+  const path = statement.match(
+    /^(?:pub(?:\([^)]*\))?\s+)?use\s+([\s\S]+?);?$/
+  )?.[1];
+  if (!path) {
+    return undefined;
+  }
+  const groupMatch = path.match(/^([\s\S]*?)::\{([\s\S]*)\}$/);
+  if (!groupMatch) {
+    return getListNames(path.replace(/::/g, "."));
+  }
+  const parentName = lastPathSegment(groupMatch[1]);
+  const names = getListNames(groupMatch[2].replace(/::/g, "."));
+  return names?.map((name) => (name === "self" ? parentName : name));
+}
+
+function getQualifiedImportedNames(statement: string): string[] | undefined {
+  const path = statement.match(
+    /^(?:import|use)\s+(?:static\s+)?([\s\S]+?);?$/
+  )?.[1];
+  if (!path) {
+    return undefined;
+  }
+  const groupMatch = path.match(/^[\s\S]*?\\\{([\s\S]*)\}$/);
+  return getListNames(groupMatch ? groupMatch[1] : path);
+}
+
+/**
+ * Names an import statement brings into scope, or `undefined` when they
+ * cannot be determined (side-effect imports, wildcards, `#include`, ...).
+ */
+export function getImportedNames(
+  languageId: string,
+  statement: string
+): string[] | undefined {
+  const normalized = statement.trim();
+  if (JAVASCRIPT_LIKE_LANGUAGE_IDS.has(languageId)) {
+    return getJavaScriptImportedNames(normalized);
+  }
+  switch (languageId) {
+    case "python":
+      return getPythonImportedNames(normalized);
+    case "rust":
+      return getRustImportedNames(normalized);
+    case "java":
+    case "kotlin":
+    case "scala":
+    case "groovy":
+    case "php":
+      return getQualifiedImportedNames(normalized);
+    case "go": {
+      const match = normalized.match(/^(?:import\s+)?(?:([\w.]+)\s+)?"([^"]+)"$/);
+      if (!match || match[1] === "_" || match[1] === ".") {
+        return undefined;
+      }
+      return [match[1] ?? lastPathSegment(match[2])];
+    }
+    case "csharp": {
+      const alias = normalized.match(/^(?:global\s+)?using\s+(\w+)\s*=/)?.[1];
+      return alias ? [alias] : undefined;
+    }
+    case "lua": {
+      const binding = normalized.match(/^local\s+(\w+)\s*=\s*require\b/)?.[1];
+      return binding ? [binding] : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function isNameUsed(name: string, text: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).test(text);
+}
+
+/**
+ * Splits the import block into statements (multi-line statements stay whole)
+ * and the comment or blank lines between them.
+ */
+function splitImportStatements(
+  document: vscode.TextDocument,
+  block: ImportBlock
+): { lines: string[]; isImport: boolean }[] {
+  const statements: { lines: string[]; isImport: boolean }[] = [];
+  for (let line = block.startLine; line <= block.endLine; line += 1) {
+    const text = document.lineAt(line).text;
+    const trimmed = text.trim();
+    if (trimmed.length === 0 || isCommentLine(trimmed, document.languageId)) {
+      statements.push({ lines: [text], isImport: false });
+      continue;
+    }
+    const lines = [text];
+    let depth = countBracketDelta(trimmed);
+    while (depth > 0 && line < block.endLine) {
+      line += 1;
+      lines.push(document.lineAt(line).text);
+      depth += countBracketDelta(document.lineAt(line).text);
+    }
+    statements.push({ lines, isImport: true });
+  }
+  return statements;
+}
+
+/**
+ * Returns the import block text without the imports whose names never appear
+ * in `usedText`. Imports whose names cannot be determined are kept; Go import
+ * groups are filtered line by line.
+ */
+export function filterUsedImports(
+  document: vscode.TextDocument,
+  block: ImportBlock,
+  usedText: string
+): string {
+  const keptLines: string[] = [];
+  let pendingComments: string[] = [];
+  for (const statement of splitImportStatements(document, block)) {
+    if (!statement.isImport) {
+      pendingComments.push(
+        ...statement.lines.filter((line) => line.trim().length > 0)
+      );
+      continue;
+    }
+
+    let lines = statement.lines;
+    if (document.languageId === "go" && lines.length > 1) {
+      const specs = lines.slice(1, -1).filter((line) => {
+        const names = getImportedNames("go", line);
+        return !names || names.some((name) => isNameUsed(name, usedText));
+      });
+      lines =
+        specs.length > 0 ? [lines[0], ...specs, lines[lines.length - 1]] : [];
+    } else {
+      const names = getImportedNames(document.languageId, lines.join("\n"));
+      if (names && !names.some((name) => isNameUsed(name, usedText))) {
+        lines = [];
+      }
+    }
+
+    if (lines.length > 0) {
+      keptLines.push(...pendingComments, ...lines);
+    }
+    pendingComments = [];
+  }
+  return keptLines.join("\n");
+}
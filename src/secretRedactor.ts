@@ -0,0 +1,166 @@
+export type RedactionResult = {
+  text: string;
+  count: number;
+};
+
+const REDACTED = "[REDACTED]";
+
+type SecretPattern = {
+  pattern: RegExp;
+  /** Capture group holding the secret; the whole match when omitted. */
+  group?: number;
+};
+
+const BUILT_IN_PATTERNS: SecretPattern[] = [
+  // PEM private key blocks: keep the armor lines, drop the key material.
+  {
+    pattern:
+      /-----BEGIN ((?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?)-----\r?\n([\s\S]*?)\r?\n-----END \1-----/g,
+    group: 2,
+  },
+  // AWS access key IDs.
+  { pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  // JSON Web Tokens.
+  { pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  // `password = "..."`-style assignments in code and config files.
+  {
+    pattern:
+      /\b[\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key)[\w.-]*["']?\s*(?::=|=>|=|:)\s*(["'`])([^"'`\r\n]+)\1/gi,
+    group: 2,
+  },
+  // Unquoted `.env`-style lines such as `DB_PASSWORD=hunter2`.
+  {
+    pattern:
+      /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:PASSWORD|PASSWD|PWD|SECRET|TOKEN|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY)[A-Z0-9_]*[ \t]*=[ \t]*([^\s"'`#][^\s#]*)/gm,
+    group: 1,
+  },
+];
+
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+/=_-]{32,}/g;
+// A commit hash path segment, as in permalinks. Candidates are split around
+// it so the mixed-case URL path does not read as one random token.
+const COMMIT_HASH_SEGMENT = /(?<=\/)([0-9a-f]{64}|[0-9a-f]{40})(?=\/)/;
+const HIGH_ENTROPY_THRESHOLD = 4.3;
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Long random-looking tokens (base64 secrets, API keys) mix letters and
+ * digits and have a high per-character entropy. Hex digests stay below the
+ * threshold, and identifiers without digits are never considered.
+ */
+function isHighEntropyString(value: string): boolean {
+  return (
+    /[A-Za-z]/.test(value) &&
+    /[0-9]/.test(value) &&
+    !value.includes(REDACTED) &&
+    shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD
+  );
+}
+
+function countCaptureGroups(pattern: RegExp): number {
+  // An empty alternative always matches, exposing every group of `pattern`.
+  return new RegExp(`${pattern.source}|`).exec("")!.length - 1;
+}
+
+function maskMatches(
+  text: string,
+  { pattern, group }: SecretPattern,
+  shouldMask: (secret: string) => boolean = () => true
+): RedactionResult {
+  const indexedPattern = new RegExp(
+    pattern.source,
+    pattern.flags.includes("d") ? pattern.flags : `${pattern.flags}d`
+  );
+  let output = "";
+  let lastIndex = 0;
+  let count = 0;
+  for (const match of text.matchAll(indexedPattern)) {
+    const [start, end] =
+      (group !== undefined ? match.indices?.[group] : undefined) ??
+      match.indices?.[0] ??
+      [0, 0];
+    const secret = text.slice(start, end);
+    if (secret.length === 0 || secret === REDACTED || !shouldMask(secret)) {
+      continue;
+    }
+    output += text.slice(lastIndex, start) + REDACTED;
+    lastIndex = end;
+    count += 1;
+  }
+  return { text: output + text.slice(lastIndex), count };
+}
+
+/**
+ * Compiles user-defined redaction patterns. Throws an `Error` naming the
+ * first invalid pattern.
+ */
+export function compileRedactionPatterns(sources: string[]): RegExp[] {
+  return sources.map((source) => {
+    try {
+      return new RegExp(source, "g");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`"${source}" is not a valid regular expression: ${message}`);
+    }
+  });
+}
+
+/**
+ * Masks common secret shapes (private keys, AWS access keys, JWTs, password
+ * assignments and high-entropy strings) plus `customPatterns`. A custom
+ * pattern with capture groups masks only its first group.
+ */
+export function redactSecrets(
+  text: string,
+  customPatterns: RegExp[] = []
+): RedactionResult {
+  let result: RedactionResult = { text, count: 0 };
+  const apply = (
+    pattern: SecretPattern,
+    shouldMask?: (secret: string) => boolean
+  ) => {
+    const next = maskMatches(result.text, pattern, shouldMask);
+    result = { text: next.text, count: result.count + next.count };
+  };
+
+  for (const pattern of BUILT_IN_PATTERNS) {
+    apply(pattern);
+  }
+  for (const pattern of customPatterns) {
+    apply({
+      pattern,
+      group: countCaptureGroups(pattern) > 0 ? 1 : undefined,
+    });
+  }
+
+  // `split` keeps the captured hashes at the odd indices.
+  const parts = result.text.split(COMMIT_HASH_SEGMENT);
+  let output = "";
+  let count = result.count;
+  parts.forEach((part, index) => {
+    if (index % 2 === 1) {
+      output += part;
+      return;
+    }
+    const next = maskMatches(
+      part,
+      { pattern: HIGH_ENTROPY_CANDIDATE },
+      isHighEntropyString
+    );
+    output += next.text;
+    count += next.count;
+  });
+  return { text: output, count };
+}
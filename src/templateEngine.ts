@@ -0,0 +1,369 @@
+import * as path from "path";
+
+export type TemplateValues = { [key: string]: string | undefined };
+
+type FilterCall = {
+  name: string;
+  args: string[];
+};
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "placeholder"; name: string; filters: FilterCall[]; raw: string }
+  | {
+      kind: "if";
+      name: string;
+      negate: boolean;
+      consequent: TemplateNode[];
+      alternate: TemplateNode[];
+    };
+
+type FilterDefinition = {
+  minArgs: number;
+  maxArgs: number;
+  validate?: (args: string[]) => void;
+  apply: (value: string, args: string[]) => string;
+};
+
+export class TemplateError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(`${message} (at character ${offset + 1})`);
+    this.name = "TemplateError";
+  }
+}
+
+function parseIndentWidth(arg: string): number {
+  const width = Number(arg);
+  if (!Number.isInteger(width) || width < 0) {
+    throw new Error(`indent expects a non-negative integer, got "${arg}"`);
+  }
+  return width;
+}
+
+const FILTERS: { [name: string]: FilterDefinition } = {
+  basename: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value) => (value ? path.posix.basename(value.replace(/\\/g, "/")) : value),
+  },
+  dirname: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (value) => {
+      if (!value) {
+        return value;
+      }
+      const dir = path.posix.dirname(value.replace(/\\/g, "/"));
+      return dir === "." ? "" : dir;
+    },
+  },
+  upper: { minArgs: 0, maxArgs: 0, apply: (value) => value.toUpperCase() },
+  lower: { minArgs: 0, maxArgs: 0, apply: (value) => value.toLowerCase() },
+  trim: { minArgs: 0, maxArgs: 0, apply: (value) => value.trim() },
+  indent: {
+    minArgs: 1,
+    maxArgs: 1,
+    validate: ([width]) => {
+      parseIndentWidth(width);
+    },
+    apply: (value, [width]) => {
+      const prefix = " ".repeat(parseIndentWidth(width));
+      return value
+        .split("\n")
+        .map((line) => (line.trim().length > 0 ? `${prefix}${line}` : line))
+        .join("\n");
+    },
+  },
+  default: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value, [fallback]) => (value.length > 0 ? value : fallback),
+  },
+};
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/y;
+
+class TemplateParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): TemplateNode[] {
+    const { nodes, terminator } = this.parseNodes();
+    if (terminator) {
+      throw new TemplateError(
+        `Unexpected "${terminator.tag}" without a matching "{#if ...}"`,
+        terminator.offset
+      );
+    }
+    return nodes;
+  }
+
+  private parseNodes(): {
+    nodes: TemplateNode[];
+    terminator?: { tag: "{:else}" | "{/if}"; offset: number };
+  } {
+    const nodes: TemplateNode[] = [];
+    let textStart = this.index;
+
+    const flushText = (end: number) => {
+      if (end > textStart) {
+        nodes.push({ kind: "text", text: this.source.slice(textStart, end) });
+      }
+    };
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+
+      // Escaped placeholders (`\{name}`) are emitted verbatim.
+      if (char === "\\" && this.source[this.index + 1] === "{") {
+        this.index += 2;
+        continue;
+      }
+
+      if (char !== "{") {
+        this.index += 1;
+        continue;
+      }
+
+      const tagStart = this.index;
+      if (this.source.startsWith("{/if}", tagStart)) {
+        flushText(tagStart);
+        this.index += "{/if}".length;
+        return { nodes, terminator: { tag: "{/if}", offset: tagStart } };
+      }
+      if (this.source.startsWith("{:else}", tagStart)) {
+        flushText(tagStart);
+        this.index += "{:else}".length;
+        return { nodes, terminator: { tag: "{:else}", offset: tagStart } };
+      }
+
+      const next = this.source[tagStart + 1];
+      let node: TemplateNode | undefined;
+      if (next === "#") {
+        node = this.parseIfBlock();
+      } else if (next === "/" || next === ":") {
+        const closeIndex = this.source.indexOf("}", tagStart);
+        const tag =
+          closeIndex < 0 ? this.source.slice(tagStart) : this.source.slice(tagStart, closeIndex + 1);
+        throw new TemplateError(`Unknown template tag "${tag}"`, tagStart);
+      } else {
+        node = this.parsePlaceholder();
+      }
+
+      if (!node) {
+        // Not template syntax (e.g. a literal brace in XML or JSON output).
+        this.index = tagStart + 1;
+        continue;
+      }
+
+      flushText(tagStart);
+      nodes.push(node);
+      textStart = this.index;
+    }
+
+    flushText(this.index);
+    return { nodes };
+  }
+
+  private parseIfBlock(): TemplateNode {
+    const tagStart = this.index;
+    const match = /\{#if\s+(!?)\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}/y;
+    match.lastIndex = tagStart;
+    const result = match.exec(this.source);
+    if (!result) {
+      const closeIndex = this.source.indexOf("}", tagStart);
+      const tag =
+        closeIndex < 0 ? this.source.slice(tagStart) : this.source.slice(tagStart, closeIndex + 1);
+      throw new TemplateError(
+        `Invalid block tag "${tag}"; expected "{#if name}" or "{#if !name}"`,
+        tagStart
+      );
+    }
+    this.index = match.lastIndex;
+
+    const consequent = this.parseNodes();
+    if (!consequent.terminator) {
+      throw new TemplateError(`Unclosed "{#if ${result[2]}}" block`, tagStart);
+    }
+
+    let alternate: TemplateNode[] = [];
+    if (consequent.terminator.tag === "{:else}") {
+      const alternateResult = this.parseNodes();
+      if (!alternateResult.terminator) {
+        throw new TemplateError(`Unclosed "{#if ${result[2]}}" block`, tagStart);
+      }
+      if (alternateResult.terminator.tag === "{:else}") {
+        throw new TemplateError(
+          `Duplicate "{:else}" in "{#if ${result[2]}}" block`,
+          alternateResult.terminator.offset
+        );
+      }
+      alternate = alternateResult.nodes;
+    }
+
+    return {
+      kind: "if",
+      name: result[2],
+      negate: result[1] === "!",
+      consequent: consequent.nodes,
+      alternate,
+    };
+  }
+
+  private parsePlaceholder(): TemplateNode | undefined {
+    const tagStart = this.index;
+    const name = this.readIdentifier(tagStart + 1);
+    if (!name) {
+      return undefined;
+    }
+
+    let cursor = tagStart + 1 + name.length;
+    if (this.source[cursor] === "}") {
+      this.index = cursor + 1;
+      return { kind: "placeholder", name, filters: [], raw: this.source.slice(tagStart, this.index) };
+    }
+    if (this.source[cursor] !== "|") {
+      return undefined;
+    }
+
+    const filters: FilterCall[] = [];
+    while (this.source[cursor] === "|") {
+      cursor = this.skipWhitespace(cursor + 1);
+      const filterName = this.readIdentifier(cursor);
+      if (!filterName) {
+        throw new TemplateError(`Expected a filter name after "|" in {${name}|...}`, cursor);
+      }
+      const filter = Object.hasOwn(FILTERS, filterName) ? FILTERS[filterName] : undefined;
+      if (!filter) {
+        throw new TemplateError(`Unknown filter "${filterName}"`, cursor);
+      }
+      cursor += filterName.length;
+
+      const args: string[] = [];
+      if (this.source[cursor] === ":") {
+        cursor += 1;
+        for (;;) {
+          const arg = this.readFilterArgument(cursor);
+          args.push(arg.value);
+          cursor = arg.end;
+          if (this.source[cursor] !== ",") {
+            break;
+          }
+          cursor += 1;
+        }
+      }
+      cursor = this.skipWhitespace(cursor);
+
+      if (args.length < filter.minArgs || args.length > filter.maxArgs) {
+        const expected =
+          filter.minArgs === filter.maxArgs
+            ? `${filter.minArgs}`
+            : `${filter.minArgs}-${filter.maxArgs}`;
+        throw new TemplateError(
+          `Filter "${filterName}" expects ${expected} argument(s), got ${args.length}`,
+          cursor
+        );
+      }
+      try {
+        filter.validate?.(args);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new TemplateError(message, cursor);
+      }
+      filters.push({ name: filterName, args });
+    }
+
+    if (this.source[cursor] !== "}") {
+      throw new TemplateError(`Expected "}" to close placeholder {${name}|...}`, cursor);
+    }
+
+    this.index = cursor + 1;
+    return { kind: "placeholder", name, filters, raw: this.source.slice(tagStart, this.index) };
+  }
+
+  private readIdentifier(start: number): string | undefined {
+    IDENTIFIER.lastIndex = start;
+    return IDENTIFIER.exec(this.source)?.[0];
+  }
+
+  private skipWhitespace(start: number): number {
+    let cursor = start;
+    while (cursor < this.source.length && /[ \t]/.test(this.source[cursor])) {
+      cursor += 1;
+    }
+    return cursor;
+  }
+
+  private readFilterArgument(start: number): { value: string; end: number } {
+    const cursor = this.skipWhitespace(start);
+    const quote = this.source[cursor];
+    if (quote === '"' || quote === "'") {
+      let value = "";
+      for (let index = cursor + 1; index < this.source.length; index += 1) {
+        const char = this.source[index];
+        if (char === "\\" && index + 1 < this.source.length) {
+          const escaped = this.source[index + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          index += 1;
+          continue;
+        }
+        if (char === quote) {
+          return { value, end: this.skipWhitespace(index + 1) };
+        }
+        value += char;
+      }
+      throw new TemplateError("Unterminated string in filter argument", cursor);
+    }
+
+    const bare = /[^\s,|}"']+/y;
+    bare.lastIndex = cursor;
+    const match = bare.exec(this.source);
+    if (!match) {
+      throw new TemplateError("Expected a filter argument", cursor);
+    }
+    return { value: match[0], end: this.skipWhitespace(bare.lastIndex) };
+  }
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  return new TemplateParser(template).parse();
+}
+
+function renderNodes(nodes: TemplateNode[], values: TemplateValues): string {
+  let output = "";
+  for (const node of nodes) {
+    if (node.kind === "text") {
+      output += node.text;
+      continue;
+    }
+
+    if (node.kind === "if") {
+      const isTruthy = (values[node.name] ?? "").length > 0;
+      const branch = isTruthy !== node.negate ? node.consequent : node.alternate;
+      output += renderNodes(branch, values);
+      continue;
+    }
+
+    // Unknown plain placeholders are left untouched so literal braces survive.
+    if (!(node.name in values) && node.filters.length === 0) {
+      output += node.raw;
+      continue;
+    }
+
+    output += node.filters.reduce(
+      (value, filter) => FILTERS[filter.name].apply(value, filter.args),
+      values[node.name] ?? ""
+    );
+  }
+  return output;
+}
+
+/**
+ * Renders a template with `{name}` placeholders, `{name|filter:arg}` filters
+ * and `{#if name}...{:else}...{/if}` blocks. Throws `TemplateError` on invalid
+ * syntax.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return renderNodes(parseTemplate(template), values);
+}
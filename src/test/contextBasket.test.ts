@@ -0,0 +1,77 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { ContextBasket } from "../contextBasket";
+
+suite("Context Basket Test Suite", () => {
+  function createMemento(): vscode.Memento {
+    const store = new Map<string, unknown>();
+    return {
+      keys: () => [...store.keys()],
+      get: (key: string, defaultValue?: unknown) =>
+        store.has(key) ? store.get(key) : defaultValue,
+      update: async (key: string, value: unknown) => {
+        store.set(key, value);
+      },
+    } as vscode.Memento;
+  }
+
+  test("ContextBasket should add, reorder and remove entries", async () => {
+    const basket = new ContextBasket(createMemento());
+    const first = await basket.add({ label: "a.ts:1", kind: "Selection", text: "A" });
+    const second = await basket.add({ label: "b.ts:2", kind: "Function", text: "B" });
+    const third = await basket.add({ label: "c.ts", kind: "File", text: "C" });
+
+    await basket.move(third, -1);
+    assert.deepStrictEqual(
+      basket.getEntries().map((entry) => entry.text),
+      ["A", "C", "B"]
+    );
+
+    await basket.move(first, -1);
+    await basket.move(second, 1);
+    assert.deepStrictEqual(
+      basket.getEntries().map((entry) => entry.text),
+      ["A", "C", "B"]
+    );
+
+    await basket.remove(first);
+    assert.deepStrictEqual(
+      basket.getEntries().map((entry) => entry.text),
+      ["C", "B"]
+    );
+
+    await basket.clear();
+    assert.strictEqual(basket.getEntries().length, 0);
+  });
+
+  test("ContextBasket should restore entries from workspace state", async () => {
+    const memento = createMemento();
+    const basket = new ContextBasket(memento);
+    await basket.add({ label: "a.ts:1", kind: "Selection", text: "A" });
+
+    const reloaded = new ContextBasket(memento);
+    assert.deepStrictEqual(
+      reloaded.getEntries().map((entry) => entry.label),
+      ["a.ts:1"]
+    );
+  });
+
+  test("ContextBasket should expose entries as tree items", async () => {
+    const basket = new ContextBasket(createMemento());
+    const entry = await basket.add({ label: "a.ts:1", kind: "Selection", text: "A" });
+    let changeCount = 0;
+    basket.onDidChangeTreeData(() => {
+      changeCount += 1;
+    });
+
+    const item = basket.getTreeItem(entry);
+    assert.strictEqual(item.label, "a.ts:1");
+    assert.strictEqual(item.description, "Selection");
+    assert.strictEqual(item.contextValue, "basketEntry");
+    assert.deepStrictEqual(basket.getChildren(), [entry]);
+    assert.deepStrictEqual(basket.getChildren(entry), []);
+
+    await basket.remove(entry);
+    assert.strictEqual(changeCount, 1);
+  });
+});
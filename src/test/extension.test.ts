@@ -1,4 +1,8 @@
 import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
 import * as sinon from "sinon";
 import {
@@ -12,6 +16,7 @@ import {
   copyFunctionDefinitionWithParents,
   copyFunctionQualifiedName,
   __setClipboardWriterForTests,
+  __resetSymbolCacheForTests,
   getConfiguration,
   formatTemplate,
   getDocumentSymbols,
@@ -22,13 +27,33 @@ import {
   getCopyRangeForFunctionSymbol,
   composeFunctionWithParentsText,
   getTextByRange,
+  copyWithProfile,
+  resolveProfileArgument,
+  getFenceLanguage,
+  getSafeFence,
+  copyFiles,
+  formatOmissionMarker,
+  addToContextBasket,
+  copyContextBasket,
+  formatSelectionSnippet,
+  copyClassOutline,
+  copyFileOutline,
+  copyFunctionWithDependencies,
+  copyFunctionWithCallers,
+  copyFunctionWithReferencedTypes,
+  copyWorkingChanges,
+  copyWithProblems,
+  copyLocation,
+  findCallIdentifiers,
 } from "../extension";
+import { BasketEntry, ContextBasket } from "../contextBasket";
 
 suite("Extension Test Suite", () => {
   vscode.window.showInformationMessage("Start all tests.");
 
   teardown(() => {
     __setClipboardWriterForTests();
+    __resetSymbolCacheForTests();
     sinon.restore();
   });
 
@@ -162,7 +187,7 @@ suite("Extension Test Suite", () => {
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
       copiedText,
-      "class Outer {\n  run() {\n    # ......\n    return x;"
+      "class Outer {\n  run() {\n    // ......\n    return x;"
     );
   });
 
@@ -304,7 +329,7 @@ suite("Extension Test Suite", () => {
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
       copiedText,
-      ":4:1-4:14|class Outer {\n  run() {\n    # ......\n    return x;"
+      ":4:1-4:14|class Outer {\n  run() {\n    // ......\n    return x;"
     );
   });
 
@@ -610,7 +635,7 @@ suite("Extension Test Suite", () => {
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
       copiedText,
-      "class Outer {\n  run() {\n    # ......\n    return before;\n"
+      "class Outer {\n  run() {\n    // ......\n    return before;\n"
     );
   });
 
@@ -658,10 +683,58 @@ suite("Extension Test Suite", () => {
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
       copiedText,
-      "class Outer {\n  run() {\n    return 1;\n    # ......"
+      "class Outer {\n  run() {\n    return 1;\n    // ......"
     );
   });
 
+  test("copySelection should use the language comment syntax and omissionMarker template", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "lua",
+      content: "function run()\n  local a = 1\n  local b = 2\n  return a + b\nend\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 4, 3);
+
+    sinon.stub(vscode.window, "activeTextEditor").value({
+      document,
+      selection: new vscode.Selection(3, 0, 3, 14),
+    });
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "removeRootIndentation") {
+          return false;
+        }
+        if (key === "omissionMarker") {
+          return "... {count} lines omitted ...";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copySelection();
+
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      "function run()\n  -- ... 2 lines omitted ...\n  return a + b\n  -- ... 1 lines omitted ..."
+    );
+  });
+
+  test("formatOmissionMarker should wrap markup comments", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "html",
+      content: "<div></div>\n",
+    });
+
+    assert.strictEqual(formatOmissionMarker(document, "  ", 3), "  <!-- ...... -->");
+  });
+
   test("copySelection should not add markers when only blank lines are omitted", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
@@ -803,81 +876,25 @@ suite("Extension Test Suite", () => {
     assert.ok(!copiedText.includes("# ......"));
   });
 
-  test("copyFile should not throw an error when called", () => {
-    try {
-      copyFile();
-      assert.ok(true);
-    } catch (error) {
-      assert.fail("copyFile threw an error");
-    }
-  });
-
-  test("composeQualifiedFunctionName should build class and function chain", () => {
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 10, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 9, 3);
-    const innerFunctionSymbol = createSymbol(
-      "inner",
-      vscode.SymbolKind.Function,
-      3,
-      4,
-      7,
-      5
-    );
-
-    const qualifiedName = composeQualifiedFunctionName({
-      ancestors: [classSymbol, methodSymbol],
-      symbol: innerFunctionSymbol,
-    });
-
-    assert.strictEqual(qualifiedName, "Outer.run.inner");
-  });
-
-  test("composeQualifiedFunctionName should return function name for top-level function", () => {
-    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 1, 1);
-
-    const qualifiedName = composeQualifiedFunctionName({
-      ancestors: [],
-      symbol: functionSymbol,
-    });
-
-    assert.strictEqual(qualifiedName, "run");
-  });
-
-  test("composeQualifiedFunctionName should ignore non class and function ancestors", () => {
-    const namespaceSymbol = createSymbol(
-      "MyNamespace",
-      vscode.SymbolKind.Namespace,
-      0,
-      0,
-      10,
-      1
-    );
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 1, 0, 9, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 2, 2, 8, 3);
-
-    const qualifiedName = composeQualifiedFunctionName({
-      ancestors: [namespaceSymbol, classSymbol],
-      symbol: methodSymbol,
-    });
-
-    assert.strictEqual(qualifiedName, "Outer.run");
-  });
-
-  test("copyFunctionQualifiedName should copy Class.Function for class method", async () => {
+  test("copySelection should share parent definitions across multiple selections", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
-      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+      language: "python",
+      content:
+        "class Outer:\n    def a(self):\n        x = 1\n        y = 2\n        return x + y\n\n    def helper(self):\n        pass\n\n    def b(self):\n        z = 3\n        return z\n",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
-    classSymbol.children = [methodSymbol];
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 11, 16);
+    const aSymbol = createSymbol("a", vscode.SymbolKind.Method, 1, 4, 4, 24);
+    const helperSymbol = createSymbol("helper", vscode.SymbolKind.Method, 6, 4, 7, 12);
+    const bSymbol = createSymbol("b", vscode.SymbolKind.Method, 9, 4, 11, 16);
+    classSymbol.children = [aSymbol, helperSymbol, bSymbol];
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(2, 4),
-        new vscode.Position(2, 4)
-      ),
+      selection: new vscode.Selection(3, 0, 3, 13),
+      selections: [
+        new vscode.Selection(3, 0, 3, 13),
+        new vscode.Selection(11, 0, 11, 16),
+      ],
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
@@ -886,355 +903,2109 @@ suite("Extension Test Suite", () => {
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
       .resolves([classSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
-    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}\n{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}-{endLine}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionQualifiedName();
+    await copySelection();
 
-    assert.ok(clipboardWriteStub.calledOnceWithExactly("`Outer.run`"));
-    assert.ok(infoStub.notCalled);
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      ":4-4,12-12\n" +
+        "class Outer:\n" +
+        "    def a(self):\n" +
+        "        # ......\n" +
+        "        y = 2\n" +
+        "        # ......\n" +
+        "    # ......\n" +
+        "    def b(self):\n" +
+        "        # ......\n" +
+        "        return z"
+    );
   });
 
-  test("copyFunctionQualifiedName should copy full chain for nested class and function", async () => {
+  test("copySelection should mark omissions between selections in the same function", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
       content:
-        "class Outer {\n  run() {\n    function inner() {\n      return 1;\n    }\n  }\n}\n",
+        "function run() {\n  const a = 1;\n  const b = 2;\n  const c = 3;\n  return a + b + c;\n}\n",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
-    const innerFunctionSymbol = createSymbol(
-      "inner",
-      vscode.SymbolKind.Function,
-      2,
-      4,
-      4,
-      5
-    );
-    classSymbol.children = [methodSymbol];
-    methodSymbol.children = [innerFunctionSymbol];
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 5, 1);
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(3, 8),
-        new vscode.Position(3, 8)
-      ),
+      selection: new vscode.Selection(3, 0, 3, 14),
+      selections: [
+        new vscode.Selection(3, 0, 3, 14),
+        new vscode.Selection(1, 0, 1, 14),
+      ],
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
+      .resolves([functionSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}|{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionQualifiedName();
+    await copySelection();
 
-    assert.ok(clipboardWriteStub.calledOnceWithExactly("`Outer.run.inner`"));
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      ":2:1-2:15,4:1-4:15|function run() {\n  const a = 1;\n  // ......\n  const c = 3;\n  // ......"
+    );
   });
 
-  test("copyFunctionQualifiedName should copy top-level function name", async () => {
+  test("copySelection should join multiple plain selections and remove root indentation", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
-      content: "function run() {\n  return 1;\n}\n",
+      language: "plaintext",
+      content: "  a();\n  b();\n  c();\n",
     });
-    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 1);
-
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(1, 2),
-        new vscode.Position(1, 2)
-      ),
+      selection: new vscode.Selection(0, 0, 0, 6),
+      selections: [
+        new vscode.Selection(0, 0, 0, 6),
+        new vscode.Selection(2, 0, 2, 6),
+        new vscode.Selection(1, 2, 1, 2),
+      ],
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([functionSymbol]);
+      .resolves([]);
     const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}\n{text}";
+        }
+        if (key === "rangeTemplate") {
+          return "L{startLine}";
+        }
+        if (key === "rangeSeparator") {
+          return " ";
+        }
+        if (key === "removeRootIndentation") {
+          return true;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionQualifiedName();
+    await copySelection();
 
-    assert.ok(clipboardWriteStub.calledOnceWithExactly("`run`"));
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      "L1 3\na();\n# ......\nc();"
+    );
   });
 
-  test("copyFunctionQualifiedName should show info and not copy when no function matches", async () => {
+  test("copyFile should not throw an error when called", () => {
+    try {
+      copyFile();
+      assert.ok(true);
+    } catch (error) {
+      assert.fail("copyFile threw an error");
+    }
+  });
+
+  test("copyFile should skip conditional range sections for whole-file copies", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
-      content: "class Outer {\n  value = 1;\n}\n",
+      content: "const a = 1;",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 2, 1);
-
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(1, 6),
-        new vscode.Position(1, 6)
-      ),
+      selection: new vscode.Selection(0, 0, 0, 0),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
-    sinon
-      .stub(vscode.commands, "executeCommand")
-      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
-    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{#if range}Lines {range}\n{/if}{text|indent:2}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionQualifiedName();
+    await copyFile();
 
-    assert.ok(clipboardWriteStub.notCalled);
-    assert.ok(
-      infoStub.calledWith("Unable to identify the current function")
-    );
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(clipboardWriteStub.firstCall.args[0], "  const a = 1;");
   });
 
-  test("copyFunctionQualifiedName should use selection.active as anchor", async () => {
+  test("copyFile should show an error and not copy when the template is invalid", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
-      content:
-        "class Outer {\n  first() { return 1; }\n  second() { return 2; }\n}\n",
+      content: "const a = 1;",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 3, 1);
-    const firstMethodSymbol = createSymbol(
-      "first",
-      vscode.SymbolKind.Method,
-      1,
-      2,
-      1,
-      23
-    );
-    const secondMethodSymbol = createSymbol(
-      "second",
-      vscode.SymbolKind.Method,
-      2,
-      2,
-      2,
-      24
-    );
-    classSymbol.children = [firstMethodSymbol, secondMethodSymbol];
-
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(1, 8),
-        new vscode.Position(2, 9)
-      ),
+      selection: new vscode.Selection(0, 0, 0, 0),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
-    sinon
-      .stub(vscode.commands, "executeCommand")
-      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
+    const errorStub = sinon.stub(vscode.window, "showErrorMessage");
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{#if range}{range}\n{text}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionQualifiedName();
-
-    assert.ok(clipboardWriteStub.calledOnceWithExactly("`Outer.second`"));
+    await copyFile();
+
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(errorStub.calledOnce);
+    assert.match(
+      errorStub.firstCall.args[0] as string,
+      /^Invalid template setting: Unclosed "\{#if range\}" block/
+    );
   });
 
-  test("getDocumentSymbols should convert SymbolInformation results to nested symbols", async () => {
+  test("resolveProfileArgument should accept names and profile objects", () => {
+    const xmlProfile = { template: "<file path=\"{filePath}\">{text}</file>" };
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => (key === "profiles" ? { xml: xmlProfile } : undefined),
+    } as vscode.WorkspaceConfiguration);
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+
+    assert.deepStrictEqual(resolveProfileArgument(), {});
+    assert.strictEqual(resolveProfileArgument("xml"), xmlProfile);
+    assert.strictEqual(resolveProfileArgument({ profile: "xml" }), xmlProfile);
+    assert.strictEqual(resolveProfileArgument("missing"), undefined);
+    assert.ok(infoStub.calledWith('No template profile named "missing"'));
+  });
+
+  test("copySelection should use profile settings passed as command argument", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
-      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+      content: "  const a = 1;\n  const b = 2;\n",
     });
-    const classInfo = new vscode.SymbolInformation(
-      "Outer",
-      vscode.SymbolKind.Class,
-      "",
-      new vscode.Location(document.uri, new vscode.Range(0, 0, 4, 1))
-    );
-    const methodInfo = new vscode.SymbolInformation(
-      "run",
-      vscode.SymbolKind.Method,
-      "Outer",
-      new vscode.Location(document.uri, new vscode.Range(1, 2, 3, 3))
-    );
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(0, 0, 1, 14),
+    } as unknown as vscode.TextEditor;
 
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classInfo, methodInfo]);
-
-    const symbols = await getDocumentSymbols(document);
-    assert.strictEqual(symbols.length, 1);
-    assert.strictEqual(symbols[0].name, "Outer");
-    assert.strictEqual(symbols[0].children.length, 1);
-    assert.strictEqual(symbols[0].children[0].name, "run");
-  });
+      .resolves([]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}\n{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        if (key === "removeRootIndentation") {
+          return true;
+        }
+        if (key === "profiles") {
+          return {
+            review: {
+              template: "<snippet lines=\"{range}\">\n{text}\n</snippet>",
+              rangeTemplate: "{startLine}-{endLine}",
+              removeRootIndentation: false,
+            },
+          };
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
 
-  test("findInnermostFunctionSymbolAtPosition should find class method", () => {
-    const classSymbol = createSymbol("Greeter", vscode.SymbolKind.Class, 0, 0, 6, 1);
-    const methodSymbol = createSymbol("sayHi", vscode.SymbolKind.Method, 1, 2, 5, 3);
-    classSymbol.children = [methodSymbol];
+    await copySelection("review");
 
-    const result = findInnermostFunctionSymbolAtPosition(
-      [classSymbol],
-      new vscode.Position(2, 4)
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      "<snippet lines=\"1-2\">\n  const a = 1;\n  const b = 2;\n</snippet>"
     );
-
-    assert.ok(result);
-    assert.strictEqual(result?.symbol, methodSymbol);
-    assert.deepStrictEqual(result?.ancestors, [classSymbol]);
   });
 
-  test("findInnermostFunctionSymbolAtPosition should prefer innermost nested function", () => {
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 10, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 9, 3);
-    const innerFunctionSymbol = createSymbol(
-      "inner",
-      vscode.SymbolKind.Function,
-      3,
-      4,
-      7,
-      5
-    );
-    classSymbol.children = [methodSymbol];
-    methodSymbol.children = [innerFunctionSymbol];
+  test("copyFile should not copy when the requested profile does not exist", async () => {
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
 
-    const result = findInnermostFunctionSymbolAtPosition(
-      [classSymbol],
-      new vscode.Position(4, 6)
-    );
+    await copyFile("missing");
 
-    assert.ok(result);
-    assert.strictEqual(result?.symbol, innerFunctionSymbol);
-    assert.deepStrictEqual(result?.ancestors, [classSymbol, methodSymbol]);
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(infoStub.calledWith('No template profile named "missing"'));
   });
 
-  test("extractDefinitionHeaderLine should trim trailing whitespace", async () => {
+  test("copyWithProfile should run the picked command with the picked profile", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
-      content: "class Container {   \n  method() {\n    return 1;\n  }\n}\n",
+      content: "const a = 1;",
     });
-    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 4, 1);
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(0, 0, 0, 0),
+    } as unknown as vscode.TextEditor;
 
-    const header = extractDefinitionHeaderLine(document, classSymbol);
-    assert.strictEqual(header, "class Container {");
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "profiles") {
+          return { chat: { template: "Context:\n{text}" } };
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+    const quickPickStub = sinon.stub(vscode.window, "showQuickPick");
+    quickPickStub.onFirstCall().callsFake(async (items) => (await items)[0]);
+    quickPickStub
+      .onSecondCall()
+      .callsFake(async (items) =>
+        (await items).find((item) => item.label === "Entire File")
+      );
+
+    await copyWithProfile();
+
+    assert.ok(quickPickStub.calledTwice);
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(clipboardWriteStub.firstCall.args[0], "Context:\nconst a = 1;");
   });
 
-  test("extractDefinitionHeaderLine should prefer selectionRange line", async () => {
-    const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
-      content:
-        "// not definition\n  class Container {\n    method() {\n      return 1;\n    }\n  }\n",
+  test("copyWithProfile should show info when no profiles are configured", async () => {
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+    const quickPickStub = sinon.stub(vscode.window, "showQuickPick");
+
+    await copyWithProfile();
+
+    assert.ok(quickPickStub.notCalled);
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(
+      infoStub.calledWith(
+        "No template profiles configured in copy-paste-template.profiles"
+      )
+    );
+  });
+
+  test("getFenceLanguage should map configured languages and fall back to language id", async () => {
+    const tsxDocument = await vscode.workspace.openTextDocument({
+      language: "typescriptreact",
+      content: "",
+    });
+    const goDocument = await vscode.workspace.openTextDocument({
+      language: "go",
+      content: "",
     });
-    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 5, 3);
-    classSymbol.selectionRange = new vscode.Range(1, 2, 1, 18);
 
-    const header = extractDefinitionHeaderLine(document, classSymbol);
-    assert.strictEqual(header, "  class Container {");
+    assert.strictEqual(getFenceLanguage(tsxDocument), "tsx");
+    assert.strictEqual(getFenceLanguage(goDocument), "go");
+
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) =>
+        key === "fenceLanguages" ? { go: "golang" } : undefined,
+    } as vscode.WorkspaceConfiguration);
+
+    assert.strictEqual(getFenceLanguage(goDocument), "golang");
+    assert.strictEqual(getFenceLanguage(tsxDocument), "typescriptreact");
   });
 
-  test("extractDefinitionBlock should include decorator outside symbol range start", async () => {
+  test("copyFunctionWithParents should mark code skipped between parent headers and the function", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content:
-        "class Outer:\n    @cache\n    def run(\n        self,\n    ):\n        return 1\n",
+      language: "go",
+      content: "type Server struct {\n\tname string\n\tport int\n\n\tHandle func() {\n\t}\n}\n",
     });
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 2, 4, 2, 11);
-    methodSymbol.selectionRange = new vscode.Range(2, 4, 2, 7);
+    const structSymbol = createSymbol("Server", vscode.SymbolKind.Struct, 0, 0, 6, 1);
+    const functionSymbol = createSymbol("Handle", vscode.SymbolKind.Function, 4, 1, 5, 2);
+    structSymbol.children = [functionSymbol];
 
-    const definitionBlock = extractDefinitionBlock(document, methodSymbol);
+    sinon.stub(vscode.window, "activeTextEditor").value({
+      document,
+      selection: new vscode.Selection(4, 2, 4, 2),
+    });
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([structSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => (key === "template" ? "{text}" : undefined),
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
 
     assert.strictEqual(
-      definitionBlock.text,
-      "    @cache\n    def run(\n        self,\n    ):"
+      clipboardWriteStub.firstCall.args[0],
+      "type Server struct {\n\t// ......\n\tHandle func() {\n\t}"
     );
   });
 
-  test("getCopyRangeForFunctionSymbol should expand start when prefix is whitespace", async () => {
+  test("copyFunctionWithParents should fall back to the indentation outline without a symbol provider", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content: "class Outer:\n    def run(self):\n        return 1\n",
+      language: "ruby",
+      content: "class Greeter\n  def greet(name)\n    puts name\n  end\nend\n",
     });
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 2, 16);
 
-    const range = getCopyRangeForFunctionSymbol(document, methodSymbol);
+    sinon.stub(vscode.window, "activeTextEditor").value({
+      document,
+      selection: new vscode.Selection(2, 4, 2, 4),
+    });
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    let symbolSource: string | undefined;
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "symbolSource") {
+          return symbolSource;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
 
-    assert.strictEqual(range.start.line, 1);
-    assert.strictEqual(range.start.character, 0);
-    assert.strictEqual(range.end.line, 2);
-    assert.strictEqual(range.end.character, 16);
+    await copyFunctionWithParents();
+
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      "class Greeter\n  def greet(name)\n    puts name\n  end"
+    );
+
+    symbolSource = "provider";
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.ok(infoStub.calledWith("Unable to identify the current function"));
   });
 
-  test("getCopyRangeForFunctionSymbol should start at column 0 even when prefix has non-whitespace", async () => {
+  test("copyFunctionWithParents should tag bare template fences for non-python languages", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content: "label: def run(self):\n    return 1\n",
+      language: "go",
+      content: "func run() int {\n\treturn 1\n}\n",
     });
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 0, 7, 1, 12);
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 1);
 
-    const range = getCopyRangeForFunctionSymbol(document, methodSymbol);
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(1, 1, 1, 1),
+    } as unknown as vscode.TextEditor;
 
-    assert.strictEqual(range.start.line, 0);
-    assert.strictEqual(range.start.character, 0);
-    assert.strictEqual(range.end.line, 1);
-    assert.strictEqual(range.end.character, 12);
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}\n```\n{text}\n```";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}-{endLine}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      ":1-3\n```go\nfunc run() int {\n\treturn 1\n}\n```"
+    );
   });
 
-  test("composeFunctionWithParentsText should prepend ancestor headers", async () => {
+  test("copyFile should fill languageId and fenceLanguage placeholders", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
-      content: "class Container {\n  method() {\n    return 1;\n  }\n}\n",
+      language: "typescriptreact",
+      content: "export const App = () => <div />;",
     });
-    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 4, 1);
-    const methodSymbol = createSymbol("method", vscode.SymbolKind.Method, 1, 2, 3, 3);
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(0, 0, 0, 0),
+    } as unknown as vscode.TextEditor;
 
-    const methodText = getTextByRange(document, methodSymbol.range);
-    assert.ok(methodText.includes("return 1;"));
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) =>
+        key === "template"
+          ? "{languageId}\n```{fenceLanguage}\n{text}\n```"
+          : undefined,
+    } as vscode.WorkspaceConfiguration);
 
-    const result = composeFunctionWithParentsText(
-      document,
-      [classSymbol],
-      methodSymbol
-    );
+    await copyFile();
 
+    assert.ok(clipboardWriteStub.calledOnce);
     assert.strictEqual(
-      result,
-      "class Container {\n  method() {\n    return 1;\n  }"
+      clipboardWriteStub.firstCall.args[0],
+      "typescriptreact\n```tsx\nexport const App = () => <div />;\n```"
+    );
+  });
+
+  test("copyFunctionWithParents should read language-scoped template and fence settings", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "rust",
+      content: "fn run() -> i32 {\n    1\n}\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 1);
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(1, 4, 1, 4),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon
+      .stub(vscode.workspace, "getConfiguration")
+      .callsFake((_section?: string, scope?: vscode.ConfigurationScope | null) => {
+        const isRustScope = scope === document;
+        return {
+          get: (key: string) => {
+            if (key === "template") {
+              return isRustScope ? "{filePath|basename}{range}\n{text}" : "{text}";
+            }
+            if (key === "rangeTemplate") {
+              return ":{startLine}-{endLine}";
+            }
+            if (key === "codeFence") {
+              return isRustScope ? "aboveRange" : "template";
+            }
+            return undefined;
+          },
+        } as vscode.WorkspaceConfiguration;
+      });
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.ok(copiedText.startsWith("```rust\n"));
+    assert.ok(copiedText.endsWith(":1-3\nfn run() -> i32 {\n    1\n}\n```"));
+  });
+
+  test("getSafeFence should outgrow the longest backtick run in the text", () => {
+    assert.strictEqual(getSafeFence("const a = `b`;"), "```");
+    assert.strictEqual(getSafeFence("``inline``"), "```");
+    assert.strictEqual(getSafeFence("```ts\ncode\n```"), "````");
+    assert.strictEqual(getSafeFence("`````\n```"), "``````");
+  });
+
+  test("copyFile should widen template fences when the file contains fences", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "markdown",
+      content: "# Usage\n\n```ts\nrun();\n```",
+    });
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(0, 0, 0, 0),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) =>
+        key === "template" ? "README.md\n```\n{text}\n```\n" : undefined,
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFile();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      "README.md\n````markdown\n# Usage\n\n```ts\nrun();\n```\n````\n"
+    );
+  });
+
+  test("copyFunctionWithParents should widen python fences and keep them above the range line", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content:
+        "def run():\n    \"\"\"Example:\n    ```python\n    run()\n    ```\n    \"\"\"\n    return 1\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 6, 12);
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(6, 4, 6, 4),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}\n```\n{text}\n```";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}-{endLine}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.ok(copiedText.startsWith("````python\n:1-7\ndef run():\n"));
+    assert.ok(copiedText.includes("    ```python\n    run()\n    ```\n"));
+    assert.ok(copiedText.endsWith("    return 1\n````"));
+  });
+
+  test("copyFunctionWithParents should widen auto-wrapped python fences", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: "def run():\n    return \"```\"\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 1, 16);
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(1, 4, 1, 4),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}-{endLine}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      "````python\ndef run():\n    return \"```\"\n````"
+    );
+  });
+
+  test("copyFiles should concatenate selected files with the separator template", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      fs.writeFileSync(path.join(tempDir, "a.ts"), "export const a = 1;");
+      fs.mkdirSync(path.join(tempDir, "pkg"));
+      fs.writeFileSync(path.join(tempDir, "pkg", "b.py"), "b = 2");
+      fs.writeFileSync(path.join(tempDir, "pkg", "c.bin"), new Uint8Array([1, 0, 2]));
+
+      const clipboardWriteStub = createClipboardWriteStub();
+      const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: (key: string) => {
+          if (key === "template") {
+            return "{filePath|basename}\n```\n{text}\n```";
+          }
+          if (key === "fileSeparatorTemplate") {
+            return "\n--- {index}/{count} ---\n";
+          }
+          return undefined;
+        },
+      } as vscode.WorkspaceConfiguration);
+
+      const fileUri = vscode.Uri.file(path.join(tempDir, "a.ts"));
+      const folderUri = vscode.Uri.file(path.join(tempDir, "pkg"));
+      await copyFiles(fileUri, [fileUri, folderUri]);
+
+      assert.ok(clipboardWriteStub.calledOnce);
+      assert.strictEqual(
+        clipboardWriteStub.firstCall.args[0],
+        "a.ts\n```typescript\nexport const a = 1;\n```" +
+          "\n--- 2/2 ---\n" +
+          "b.py\n```python\nb = 2\n```"
+      );
+      assert.ok(
+        infoStub.calledWith("Copied 2 file(s); skipped 1 binary file(s)")
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("copyFiles should skip files matched by denyGlobs", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      fs.writeFileSync(path.join(tempDir, "a.ts"), "export const a = 1;");
+      fs.writeFileSync(path.join(tempDir, ".env"), "DB_PASSWORD=hunter2");
+
+      const clipboardWriteStub = createClipboardWriteStub();
+      const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: (key: string) => (key === "template" ? "{text}" : undefined),
+      } as vscode.WorkspaceConfiguration);
+
+      await copyFiles(vscode.Uri.file(tempDir));
+
+      assert.ok(clipboardWriteStub.calledOnceWith("export const a = 1;"));
+      assert.ok(
+        infoStub.calledWith(
+          "Copied 1 file(s); skipped 1 file(s) matched by copy-paste-template.denyGlobs"
+        )
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("copyFile should refuse documents matched by denyGlobs", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      const keyPath = path.join(tempDir, "server.pem");
+      fs.writeFileSync(keyPath, "not really a key");
+      const document = await vscode.workspace.openTextDocument(keyPath);
+      sinon
+        .stub(vscode.window, "activeTextEditor")
+        .value({ document, selection: new vscode.Selection(0, 0, 0, 0) });
+      const clipboardWriteStub = createClipboardWriteStub();
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage");
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: () => undefined,
+      } as unknown as vscode.WorkspaceConfiguration);
+
+      await copyFile();
+
+      assert.ok(clipboardWriteStub.notCalled);
+      assert.ok(warningStub.calledOnce);
+      assert.match(String(warningStub.firstCall.args[0]), /blocked by copy-paste-template\.denyGlobs/);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("copyFile should redact secrets and report how many were masked", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: 'API_KEY = "abc123"\nticket = "OPS-42"\n',
+    });
+    sinon
+      .stub(vscode.window, "activeTextEditor")
+      .value({ document, selection: new vscode.Selection(0, 0, 0, 0) });
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "redactionPatterns") {
+          return ["\\bOPS-(\\d+)"];
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFile();
+
+    assert.ok(
+      clipboardWriteStub.calledOnceWith(
+        'API_KEY = "[REDACTED]"\nticket = "OPS-[REDACTED]"\n'
+      )
+    );
+    assert.ok(infoStub.calledWith("Redacted 2 secret(s) from the copied text"));
+  });
+
+  test("copyFile should not copy when a redaction pattern is invalid", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: "x = 1\n",
+    });
+    sinon
+      .stub(vscode.window, "activeTextEditor")
+      .value({ document, selection: new vscode.Selection(0, 0, 0, 0) });
+    const clipboardWriteStub = createClipboardWriteStub();
+    const errorStub = sinon.stub(vscode.window, "showErrorMessage");
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "redactionPatterns") {
+          return ["(unclosed"];
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFile();
+
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(errorStub.calledOnce);
+    assert.match(String(errorStub.firstCall.args[0]), /^Invalid redactionPatterns setting: "\(unclosed"/);
+  });
+
+  test("copyFiles should show info and not copy without an Explorer selection", async () => {
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+
+    await copyFiles();
+
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(
+      infoStub.calledWith("Select one or more files or folders in the Explorer")
+    );
+  });
+
+  test("addToContextBasket should collect snippets without writing the clipboard", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "const a = 1;\nconst b = 2;\n",
+    });
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(1, 0, 1, 12),
+    } as unknown as vscode.TextEditor;
+    const store = new Map<string, unknown>();
+    const basket = new ContextBasket({
+      keys: () => [...store.keys()],
+      get: (key: string, defaultValue?: unknown) =>
+        store.has(key) ? store.get(key) : defaultValue,
+      update: async (key: string, value: unknown) => {
+        store.set(key, value);
+      },
+    } as vscode.Memento);
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "<snippet>{text}</snippet>";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}";
+        }
+        if (key === "basketTemplate") {
+          return "{count} snippets:\n{snippets}";
+        }
+        if (key === "basketSeparator") {
+          return "\n\n";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await addToContextBasket(basket, "Selection", await formatSelectionSnippet());
+    await addToContextBasket(basket, "Selection", await formatSelectionSnippet());
+
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.strictEqual(basket.getEntries().length, 2);
+    assert.ok(basket.getEntries()[0].label.endsWith(":2"));
+
+    await copyContextBasket(basket);
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      "2 snippets:\n<snippet>const b = 2;</snippet>\n\n<snippet>const b = 2;</snippet>"
+    );
+  });
+
+  test("addToContextBasket should redact secrets before storing the snippet", async () => {
+    const store = new Map<string, unknown>();
+    const basket = new ContextBasket({
+      keys: () => [...store.keys()],
+      get: (key: string, defaultValue?: unknown) =>
+        store.has(key) ? store.get(key) : defaultValue,
+      update: async (key: string, value: unknown) => {
+        store.set(key, value);
+      },
+    } as vscode.Memento);
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: () => undefined,
+    } as unknown as vscode.WorkspaceConfiguration);
+
+    await addToContextBasket(basket, "File", {
+      text: 'API_KEY = "abc123"',
+      label: "config.py",
+    });
+
+    assert.deepStrictEqual(
+      (store.get("copy-paste-template.contextBasket") as BasketEntry[]).map(
+        (entry) => entry.text
+      ),
+      ['API_KEY = "[REDACTED]"']
+    );
+    assert.strictEqual(
+      basket.getTreeItem(basket.getEntries()[0]).tooltip,
+      'API_KEY = "[REDACTED]"'
+    );
+    assert.ok(infoStub.calledWith("Redacted 1 secret(s) from the basket snippet"));
+  });
+
+  test("copyContextBasket should show info and not copy when the basket is empty", async () => {
+    const basket = new ContextBasket({
+      keys: () => [],
+      get: (_key: string, defaultValue?: unknown) => defaultValue,
+      update: async () => undefined,
+    } as vscode.Memento);
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+
+    await copyContextBasket(basket);
+
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(infoStub.calledWith("The context basket is empty"));
+  });
+
+  test("copyFile should fall back to function signatures when over the token budget", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "go",
+      content: "func run() int {\n\treturn 1\n}\n\nfunc stop() {\n\tpanic(1)\n}\n",
+    });
+    const runSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 1);
+    const stopSymbol = createSymbol("stop", vscode.SymbolKind.Function, 4, 0, 6, 1);
+
+    sinon
+      .stub(vscode.window, "activeTextEditor")
+      .value({ document, selection: new vscode.Selection(0, 0, 0, 0) });
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([runSymbol, stopSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    const warningStub = sinon
+      .stub(vscode.window, "showWarningMessage")
+      .resolves("Copy Signatures Only" as unknown as vscode.MessageItem);
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}\n{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}-{endLine}";
+        }
+        if (key === "maxTokens") {
+          return 5;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFile();
+
+    assert.ok(warningStub.calledOnce);
+    assert.deepStrictEqual(warningStub.firstCall.args.slice(2), [
+      "Copy Anyway",
+      "Copy Signatures Only",
+    ]);
+    assert.ok(clipboardWriteStub.calledOnce);
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      ":1-5\nfunc run() int {\nfunc stop() {"
+    );
+  });
+
+  test("copyFunctionQualifiedName should not copy when the token budget warning is dismissed", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "function run() {\n  return 1;\n}\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 1);
+
+    sinon
+      .stub(vscode.window, "activeTextEditor")
+      .value({ document, selection: new vscode.Selection(1, 2, 1, 2) });
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    const warningStub = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "maxTokens") {
+          return 1;
+        }
+        if (key === "charsPerToken") {
+          return 2;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionQualifiedName();
+
+    assert.ok(warningStub.calledOnce);
+    assert.deepStrictEqual(warningStub.firstCall.args.slice(2), ["Copy Anyway"]);
+    assert.ok(clipboardWriteStub.notCalled);
+  });
+
+  test("composeQualifiedFunctionName should build class and function chain", () => {
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 10, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 9, 3);
+    const innerFunctionSymbol = createSymbol(
+      "inner",
+      vscode.SymbolKind.Function,
+      3,
+      4,
+      7,
+      5
+    );
+
+    const qualifiedName = composeQualifiedFunctionName({
+      ancestors: [classSymbol, methodSymbol],
+      symbol: innerFunctionSymbol,
+    });
+
+    assert.strictEqual(qualifiedName, "Outer.run.inner");
+  });
+
+  test("composeQualifiedFunctionName should return function name for top-level function", () => {
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 1, 1);
+
+    const qualifiedName = composeQualifiedFunctionName({
+      ancestors: [],
+      symbol: functionSymbol,
+    });
+
+    assert.strictEqual(qualifiedName, "run");
+  });
+
+  test("composeQualifiedFunctionName should ignore non class and function ancestors", () => {
+    const namespaceSymbol = createSymbol(
+      "MyNamespace",
+      vscode.SymbolKind.Namespace,
+      0,
+      0,
+      10,
+      1
+    );
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 1, 0, 9, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 2, 2, 8, 3);
+
+    const qualifiedName = composeQualifiedFunctionName({
+      ancestors: [namespaceSymbol, classSymbol],
+      symbol: methodSymbol,
+    });
+
+    assert.strictEqual(qualifiedName, "Outer.run");
+  });
+
+  test("copyFunctionQualifiedName should copy Class.Function for class method", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
+    classSymbol.children = [methodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(2, 4),
+        new vscode.Position(2, 4)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+
+    await copyFunctionQualifiedName();
+
+    assert.ok(clipboardWriteStub.calledOnceWithExactly("`Outer.run`"));
+    assert.ok(infoStub.notCalled);
+  });
+
+  test("copyFunctionQualifiedName should copy full chain for nested class and function", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content:
+        "class Outer {\n  run() {\n    function inner() {\n      return 1;\n    }\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
+    const innerFunctionSymbol = createSymbol(
+      "inner",
+      vscode.SymbolKind.Function,
+      2,
+      4,
+      4,
+      5
+    );
+    classSymbol.children = [methodSymbol];
+    methodSymbol.children = [innerFunctionSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(3, 8),
+        new vscode.Position(3, 8)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+
+    await copyFunctionQualifiedName();
+
+    assert.ok(clipboardWriteStub.calledOnceWithExactly("`Outer.run.inner`"));
+  });
+
+  test("copyFunctionQualifiedName should copy top-level function name", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "function run() {\n  return 1;\n}\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 1);
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(1, 2),
+        new vscode.Position(1, 2)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+
+    await copyFunctionQualifiedName();
+
+    assert.ok(clipboardWriteStub.calledOnceWithExactly("`run`"));
+  });
+
+  test("copyFunctionQualifiedName should show info and not copy when no function matches", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Outer {\n  value = 1;\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 2, 1);
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(1, 6),
+        new vscode.Position(1, 6)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+
+    await copyFunctionQualifiedName();
+
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(
+      infoStub.calledWith("Unable to identify the current function")
+    );
+  });
+
+  test("copyFunctionQualifiedName should use selection.active as anchor", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content:
+        "class Outer {\n  first() { return 1; }\n  second() { return 2; }\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 3, 1);
+    const firstMethodSymbol = createSymbol(
+      "first",
+      vscode.SymbolKind.Method,
+      1,
+      2,
+      1,
+      23
+    );
+    const secondMethodSymbol = createSymbol(
+      "second",
+      vscode.SymbolKind.Method,
+      2,
+      2,
+      2,
+      24
+    );
+    classSymbol.children = [firstMethodSymbol, secondMethodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(1, 8),
+        new vscode.Position(2, 9)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+
+    await copyFunctionQualifiedName();
+
+    assert.ok(clipboardWriteStub.calledOnceWithExactly("`Outer.second`"));
+  });
+
+  test("getDocumentSymbols should convert SymbolInformation results to nested symbols", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+    });
+    const classInfo = new vscode.SymbolInformation(
+      "Outer",
+      vscode.SymbolKind.Class,
+      "",
+      new vscode.Location(document.uri, new vscode.Range(0, 0, 4, 1))
+    );
+    const methodInfo = new vscode.SymbolInformation(
+      "run",
+      vscode.SymbolKind.Method,
+      "Outer",
+      new vscode.Location(document.uri, new vscode.Range(1, 2, 3, 3))
+    );
+
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classInfo, methodInfo]);
+
+    const symbols = await getDocumentSymbols(document);
+    assert.strictEqual(symbols.length, 1);
+    assert.strictEqual(symbols[0].name, "Outer");
+    assert.strictEqual(symbols[0].children.length, 1);
+    assert.strictEqual(symbols[0].children[0].name, "run");
+  });
+
+  test("getDocumentSymbols should retry while the provider is still starting", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: "def run():\n    return 1\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 1, 12);
+    const providerStub = sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri);
+    providerStub.onFirstCall().resolves([]);
+    providerStub.onSecondCall().resolves([functionSymbol]);
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "symbolProviderTimeout") {
+          return 1000;
+        }
+        if (key === "symbolProviderRetryDelay") {
+          return 1;
+        }
+        return undefined;
+      },
+    } as unknown as vscode.WorkspaceConfiguration);
+    const progressSpy = sinon.spy(vscode.window, "withProgress");
+    __resetSymbolCacheForTests(Date.now());
+
+    const symbols = await getDocumentSymbols(document);
+
+    assert.deepStrictEqual(
+      symbols.map((symbol) => symbol.name),
+      ["run"]
+    );
+    assert.strictEqual(providerStub.callCount, 2);
+    assert.ok(progressSpy.calledOnce);
+  });
+
+  test("getDocumentSymbols should cache provider symbols per document version", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: "def run():\n    return 1\n",
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 1, 12);
+    const providerStub = sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+
+    await getDocumentSymbols(document);
+    const symbols = await getDocumentSymbols(document);
+
+    assert.strictEqual(symbols[0].name, "run");
+    assert.strictEqual(providerStub.callCount, 1);
+  });
+
+  test("findInnermostFunctionSymbolAtPosition should find class method", () => {
+    const classSymbol = createSymbol("Greeter", vscode.SymbolKind.Class, 0, 0, 6, 1);
+    const methodSymbol = createSymbol("sayHi", vscode.SymbolKind.Method, 1, 2, 5, 3);
+    classSymbol.children = [methodSymbol];
+
+    const result = findInnermostFunctionSymbolAtPosition(
+      [classSymbol],
+      new vscode.Position(2, 4)
+    );
+
+    assert.ok(result);
+    assert.strictEqual(result?.symbol, methodSymbol);
+    assert.deepStrictEqual(result?.ancestors, [classSymbol]);
+  });
+
+  test("findInnermostFunctionSymbolAtPosition should prefer innermost nested function", () => {
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 10, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 9, 3);
+    const innerFunctionSymbol = createSymbol(
+      "inner",
+      vscode.SymbolKind.Function,
+      3,
+      4,
+      7,
+      5
+    );
+    classSymbol.children = [methodSymbol];
+    methodSymbol.children = [innerFunctionSymbol];
+
+    const result = findInnermostFunctionSymbolAtPosition(
+      [classSymbol],
+      new vscode.Position(4, 6)
+    );
+
+    assert.ok(result);
+    assert.strictEqual(result?.symbol, innerFunctionSymbol);
+    assert.deepStrictEqual(result?.ancestors, [classSymbol, methodSymbol]);
+  });
+
+  test("extractDefinitionHeaderLine should trim trailing whitespace", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Container {   \n  method() {\n    return 1;\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 4, 1);
+
+    const header = extractDefinitionHeaderLine(document, classSymbol);
+    assert.strictEqual(header, "class Container {");
+  });
+
+  test("extractDefinitionHeaderLine should prefer selectionRange line", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content:
+        "// not definition\n  class Container {\n    method() {\n      return 1;\n    }\n  }\n",
+    });
+    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 5, 3);
+    classSymbol.selectionRange = new vscode.Range(1, 2, 1, 18);
+
+    const header = extractDefinitionHeaderLine(document, classSymbol);
+    assert.strictEqual(header, "  class Container {");
+  });
+
+  test("extractDefinitionBlock should include decorator outside symbol range start", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content:
+        "class Outer:\n    @cache\n    def run(\n        self,\n    ):\n        return 1\n",
+    });
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 2, 4, 2, 11);
+    methodSymbol.selectionRange = new vscode.Range(2, 4, 2, 7);
+
+    const definitionBlock = extractDefinitionBlock(document, methodSymbol);
+
+    assert.strictEqual(
+      definitionBlock.text,
+      "    @cache\n    def run(\n        self,\n    ):"
+    );
+  });
+
+  test("extractDefinitionBlock should include the python docstring after the signature", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content:
+        'def run(value):\n    """Run it.\n\n    Returns the value.\n    """\n    return value\n',
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 5, 16);
+
+    const definitionBlock = extractDefinitionBlock(document, functionSymbol, {
+      includeDocstring: true,
+    });
+
+    assert.strictEqual(
+      definitionBlock.text,
+      'def run(value):\n    """Run it.\n\n    Returns the value.\n    """'
+    );
+    assert.strictEqual(definitionBlock.endLine, 4);
+    assert.strictEqual(
+      extractDefinitionBlock(document, functionSymbol).text,
+      "def run(value):"
+    );
+  });
+
+  test("extractDefinitionBlock should only take string-literal statements as docstrings", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: [
+        "def join(items):",
+        '    return ", ".join(items)',
+        "",
+        "def label(name):",
+        '    "prefix" + name',
+        "",
+        "def note():",
+        "    'Short note.'  # summary",
+        "    pass",
+        "",
+        "def text():",
+        '    """Starts here."""; print("x")',
+      ].join("\n"),
+    });
+    const definitionText = (line: number) =>
+      extractDefinitionBlock(
+        document,
+        createSymbol("f", vscode.SymbolKind.Function, line, 0, line + 1, 4),
+        { includeDocstring: true }
+      ).text;
+
+    assert.strictEqual(definitionText(0), "def join(items):");
+    assert.strictEqual(definitionText(3), "def label(name):");
+    assert.strictEqual(
+      definitionText(6),
+      "def note():\n    'Short note.'  # summary"
+    );
+    assert.strictEqual(definitionText(10), "def text():");
+  });
+
+  test("copySelection should not repeat a docstring the selection starts on", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content:
+        'def run(value):\n    """Run it."""\n    return value\n',
+    });
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 16);
+
+    sinon.stub(vscode.window, "activeTextEditor").value({
+      document,
+      selection: new vscode.Selection(1, 0, 2, 16),
+    });
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([functionSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => (key === "template" ? "{text}" : undefined),
+    } as vscode.WorkspaceConfiguration);
+
+    await copySelection();
+
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      'def run(value):\n    """Run it."""\n    return value'
+    );
+  });
+
+  test("extractDefinitionBlock should include JSDoc and multi-line decorators", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: [
+        "/** Unrelated. */",
+        "",
+        "/**",
+        " * Renders the widget.",
+        " */",
+        "@Component({",
+        '  selector: "app-widget",',
+        "})",
+        "export class Widget {",
+        "}",
+      ].join("\n"),
+    });
+    const classSymbol = createSymbol("Widget", vscode.SymbolKind.Class, 8, 0, 9, 1);
+
+    const definitionBlock = extractDefinitionBlock(document, classSymbol);
+
+    assert.strictEqual(definitionBlock.startLine, 2);
+    assert.strictEqual(
+      definitionBlock.text,
+      '/**\n * Renders the widget.\n */\n@Component({\n  selector: "app-widget",\n})\nexport class Widget {'
+    );
+  });
+
+  test("extractDefinitionBlock should keep attributes but drop doc comments when disabled", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "rust",
+      content: "/// Adds numbers.\n#[inline]\n/// More docs.\n#[must_use]\npub fn add(a: i32, b: i32) -> i32 {\n    a + b\n}\n",
+    });
+    const functionSymbol = createSymbol("add", vscode.SymbolKind.Function, 4, 0, 6, 1);
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => (key === "includeDocComments" ? false : undefined),
+    } as vscode.WorkspaceConfiguration);
+
+    const definitionBlock = extractDefinitionBlock(document, functionSymbol);
+
+    assert.strictEqual(
+      definitionBlock.text,
+      "#[inline]\n#[must_use]\npub fn add(a: i32, b: i32) -> i32 {"
+    );
+    assert.strictEqual(definitionBlock.startLine, 1);
+  });
+
+  test("extractDefinitionBlock should include Java annotations and C# attributes", async () => {
+    const java = await vscode.workspace.openTextDocument({
+      language: "java",
+      content: "class Api {\n  @Override\n  @Deprecated(since = \"2\")\n  public String toString() {\n    return \"\";\n  }\n}\n",
+    });
+    assert.strictEqual(
+      extractDefinitionBlock(
+        java,
+        createSymbol("toString", vscode.SymbolKind.Method, 3, 2, 5, 3)
+      ).text,
+      '  @Override\n  @Deprecated(since = "2")\n  public String toString() {'
+    );
+
+    const csharp = await vscode.workspace.openTextDocument({
+      language: "csharp",
+      content: "/// <summary>Gets it.</summary>\n[HttpGet]\npublic int Get() {\n  return 1;\n}\n",
+    });
+    assert.strictEqual(
+      extractDefinitionBlock(
+        csharp,
+        createSymbol("Get", vscode.SymbolKind.Method, 2, 0, 4, 1)
+      ).text,
+      "/// <summary>Gets it.</summary>\n[HttpGet]\npublic int Get() {"
+    );
+  });
+
+  test("getCopyRangeForFunctionSymbol should expand start when prefix is whitespace", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: "class Outer:\n    def run(self):\n        return 1\n",
+    });
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 2, 16);
+
+    const range = getCopyRangeForFunctionSymbol(document, methodSymbol);
+
+    assert.strictEqual(range.start.line, 1);
+    assert.strictEqual(range.start.character, 0);
+    assert.strictEqual(range.end.line, 2);
+    assert.strictEqual(range.end.character, 16);
+  });
+
+  test("getCopyRangeForFunctionSymbol should start at column 0 even when prefix has non-whitespace", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: "label: def run(self):\n    return 1\n",
+    });
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 0, 7, 1, 12);
+
+    const range = getCopyRangeForFunctionSymbol(document, methodSymbol);
+
+    assert.strictEqual(range.start.line, 0);
+    assert.strictEqual(range.start.character, 0);
+    assert.strictEqual(range.end.line, 1);
+    assert.strictEqual(range.end.character, 12);
+  });
+
+  test("composeFunctionWithParentsText should prepend ancestor headers", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Container {\n  method() {\n    return 1;\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 4, 1);
+    const methodSymbol = createSymbol("method", vscode.SymbolKind.Method, 1, 2, 3, 3);
+
+    const methodText = getTextByRange(document, methodSymbol.range);
+    assert.ok(methodText.includes("return 1;"));
+
+    const result = composeFunctionWithParentsText(
+      document,
+      [classSymbol],
+      methodSymbol
+    );
+
+    assert.strictEqual(
+      result,
+      "class Container {\n  method() {\n    return 1;\n  }"
+    );
+  });
+
+  test("composeFunctionWithParentsText should preserve parent indent from selectionRange line", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content:
+        "// not definition\n  class Container {\n    method() {\n      return 1;\n    }\n  }\n",
+    });
+    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 5, 3);
+    classSymbol.selectionRange = new vscode.Range(1, 2, 1, 18);
+    const methodSymbol = createSymbol("method", vscode.SymbolKind.Method, 2, 4, 4, 5);
+
+    const result = composeFunctionWithParentsText(
+      document,
+      [classSymbol],
+      methodSymbol
+    );
+
+    assert.strictEqual(
+      result,
+      "  class Container {\n    method() {\n      return 1;\n    }"
+    );
+  });
+
+  test("copyFunctionWithParents should copy ancestor headers with function text", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
+    classSymbol.children = [methodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(2, 4),
+        new vscode.Position(2, 4)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        if (key === "removeRootIndentation") {
+          return true;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.strictEqual(
+      copiedText,
+      "class Outer {\n  run() {\n    return 1;\n  }"
+    );
+  });
+
+  test("copyFunctionWithParents should preserve indented parent header when removeRootIndentation is enabled", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content:
+        "class Outer {\n  run() {\n    function inner() {\n      return 1;\n    }\n  }\n}\n",
+    });
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
+    const innerFunctionSymbol = createSymbol(
+      "inner",
+      vscode.SymbolKind.Function,
+      2,
+      4,
+      4,
+      5
+    );
+    methodSymbol.children = [innerFunctionSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(3, 8),
+        new vscode.Position(3, 8)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([methodSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        if (key === "removeRootIndentation") {
+          return true;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.strictEqual(
+      copiedText,
+      "  run() {\n    function inner() {\n      return 1;\n    }"
+    );
+  });
+
+  test("copyFunctionWithParents should use adjusted range and preserve indented function definition", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content:
+        "class ShardedMixtureDataset:\n    def finish_cache_shard(self):\n        return self._cache_job.result()\n",
+    });
+    const classSymbol = createSymbol("ShardedMixtureDataset", vscode.SymbolKind.Class, 0, 0, 2, 39);
+    const methodSymbol = createSymbol(
+      "finish_cache_shard",
+      vscode.SymbolKind.Method,
+      1,
+      4,
+      2,
+      39
+    );
+    classSymbol.children = [methodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(2, 12),
+        new vscode.Position(2, 12)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}|{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        if (key === "removeRootIndentation") {
+          return true;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.ok(copiedText.startsWith("```python\n:2:1-3:40|"));
+    assert.ok(copiedText.includes("class ShardedMixtureDataset:"));
+    assert.ok(copiedText.includes("    def finish_cache_shard(self):"));
+  });
+
+  test("copyFunctionWithParents should include decorator and keep adjusted start char", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: "class Outer:\n    @cache\n    def run(self):\n        return 1\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 3, 16);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 3, 16);
+    classSymbol.children = [methodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(3, 8),
+        new vscode.Position(3, 8)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}|{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        if (key === "removeRootIndentation") {
+          return true;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.ok(copiedText.startsWith("```python\n:2:1-4:17|"));
+    assert.ok(copiedText.includes("class Outer:"));
+    assert.ok(copiedText.includes("    @cache\n    def run(self):"));
+  });
+
+  test("copyFunctionWithParents should show info and not copy when no function matches", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Outer {\n  value = 1;\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 2, 1);
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(1, 4),
+        new vscode.Position(1, 4)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+
+    await copyFunctionWithParents();
+
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(
+      infoStub.calledWith("Unable to identify the current function")
+    );
+  });
+
+  test("copyFunctionDefinitionWithParents should copy only parent and function definitions", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
+    classSymbol.children = [methodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(2, 4),
+        new vscode.Position(2, 4)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        if (key === "removeRootIndentation") {
+          return true;
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionDefinitionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.strictEqual(copiedText, "class Outer {\n  run() {");
+    assert.ok(!copiedText.includes("return 1;"));
+  });
+
+  test("copyFunctionDefinitionWithParents should include nested parent definitions", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content:
+        "class Outer {\n  run() {\n    function inner() {\n      return 1;\n    }\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
+    const innerFunctionSymbol = createSymbol(
+      "inner",
+      vscode.SymbolKind.Function,
+      2,
+      4,
+      4,
+      5
+    );
+    classSymbol.children = [methodSymbol];
+    methodSymbol.children = [innerFunctionSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(3, 8),
+        new vscode.Position(3, 8)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionDefinitionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.strictEqual(
+      copiedText,
+      "class Outer {\n  run() {\n    function inner() {"
+    );
+    assert.ok(!copiedText.includes("return 1;"));
+  });
+
+  test("copyFunctionDefinitionWithParents should use envelope range for parent and function definitions", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
+    classSymbol.children = [methodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(2, 4),
+        new vscode.Position(2, 4)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{range}|{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionDefinitionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.ok(copiedText.startsWith(":1:1-2:10|"));
+    assert.ok(copiedText.includes("class Outer {\n  run() {"));
+    assert.ok(!copiedText.includes("return 1;"));
+  });
+
+  test("copyFunctionDefinitionWithParents should include multiline python function signature", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content:
+        "class Outer:\n    def run(\n        self,\n        value,\n    ):\n        return value\n",
+    });
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 20);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 20);
+    classSymbol.children = [methodSymbol];
+
+    const mockEditor = {
+      document,
+      selection: new vscode.Selection(
+        new vscode.Position(4, 4),
+        new vscode.Position(4, 4)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionDefinitionWithParents();
+
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    assert.strictEqual(
+      copiedText,
+      "```python\nclass Outer:\n    def run(\n        self,\n        value,\n    ):\n```"
     );
+    assert.ok(!copiedText.includes("return value"));
   });
 
-  test("composeFunctionWithParentsText should preserve parent indent from selectionRange line", async () => {
+  test("copyFunctionDefinitionWithParents should ignore bracket characters inside python strings", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
+      language: "python",
       content:
-        "// not definition\n  class Container {\n    method() {\n      return 1;\n    }\n  }\n",
+        "class Outer:\n    def run(\n        pattern=\"(\",\n        value=1,\n    ):\n        return value\n",
     });
-    const classSymbol = createSymbol("Container", vscode.SymbolKind.Class, 0, 0, 5, 3);
-    classSymbol.selectionRange = new vscode.Range(1, 2, 1, 18);
-    const methodSymbol = createSymbol("method", vscode.SymbolKind.Method, 2, 4, 4, 5);
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 20);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 20);
+    classSymbol.children = [methodSymbol];
 
-    const result = composeFunctionWithParentsText(
+    const mockEditor = {
       document,
-      [classSymbol],
-      methodSymbol
-    );
+      selection: new vscode.Selection(
+        new vscode.Position(4, 4),
+        new vscode.Position(4, 4)
+      ),
+    } as unknown as vscode.TextEditor;
+
+    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+    sinon
+      .stub(vscode.commands, "executeCommand")
+      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+      .resolves([classSymbol]);
+    const clipboardWriteStub = createClipboardWriteStub();
+    sinon.stub(vscode.workspace, "getConfiguration").returns({
+      get: (key: string) => {
+        if (key === "template") {
+          return "{text}";
+        }
+        if (key === "rangeTemplate") {
+          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        }
+        return undefined;
+      },
+    } as vscode.WorkspaceConfiguration);
+
+    await copyFunctionDefinitionWithParents();
 
+    assert.ok(clipboardWriteStub.calledOnce);
+    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
-      result,
-      "  class Container {\n    method() {\n      return 1;\n    }"
+      copiedText,
+      "```python\nclass Outer:\n    def run(\n        pattern=\"(\",\n        value=1,\n    ):\n```"
     );
+    assert.ok(!copiedText.includes("return value"));
   });
 
-  test("copyFunctionWithParents should copy ancestor headers with function text", async () => {
+  test("copyFunctionDefinitionWithParents should include multiline parent and function definitions", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
-      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+      language: "python",
+      content:
+        "class Outer(\n    Base,\n):\n    def run(\n        self,\n    ):\n        return 1\n",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 16);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 3, 4, 6, 16);
     classSymbol.children = [methodSymbol];
 
     const mockEditor = {
       document,
       selection: new vscode.Selection(
-        new vscode.Position(2, 4),
-        new vscode.Position(2, 4)
+        new vscode.Position(4, 8),
+        new vscode.Position(4, 8)
       ),
     } as unknown as vscode.TextEditor;
 
@@ -1252,45 +3023,37 @@ suite("Extension Test Suite", () => {
         if (key === "rangeTemplate") {
           return ":{startLine}:{startChar}-{endLine}:{endChar}";
         }
-        if (key === "removeRootIndentation") {
-          return true;
-        }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionWithParents();
+    await copyFunctionDefinitionWithParents();
 
     assert.ok(clipboardWriteStub.calledOnce);
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
       copiedText,
-      "class Outer {\n  run() {\n    return 1;\n  }"
+      "```python\nclass Outer(\n    Base,\n):\n    def run(\n        self,\n    ):\n```"
     );
+    assert.ok(!copiedText.includes("return 1"));
   });
 
-  test("copyFunctionWithParents should preserve indented parent header when removeRootIndentation is enabled", async () => {
+  test("copyFunctionDefinitionWithParents should include decorators in python definitions", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
+      language: "python",
       content:
-        "class Outer {\n  run() {\n    function inner() {\n      return 1;\n    }\n  }\n}\n",
+        "class Outer:\n    @cache\n    def run(\n        self,\n    ):\n        return 1\n",
     });
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
-    const innerFunctionSymbol = createSymbol(
-      "inner",
-      vscode.SymbolKind.Function,
-      2,
-      4,
-      4,
-      5
-    );
-    methodSymbol.children = [innerFunctionSymbol];
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 16);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 16);
+    methodSymbol.selectionRange = new vscode.Range(2, 4, 2, 7);
+    classSymbol.children = [methodSymbol];
 
     const mockEditor = {
       document,
       selection: new vscode.Selection(
-        new vscode.Position(3, 8),
-        new vscode.Position(3, 8)
+        new vscode.Position(4, 8),
+        new vscode.Position(4, 8)
       ),
     } as unknown as vscode.TextEditor;
 
@@ -1298,7 +3061,7 @@ suite("Extension Test Suite", () => {
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([methodSymbol]);
+      .resolves([classSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
     sinon.stub(vscode.workspace, "getConfiguration").returns({
       get: (key: string) => {
@@ -1308,45 +3071,35 @@ suite("Extension Test Suite", () => {
         if (key === "rangeTemplate") {
           return ":{startLine}:{startChar}-{endLine}:{endChar}";
         }
-        if (key === "removeRootIndentation") {
-          return true;
-        }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionWithParents();
+    await copyFunctionDefinitionWithParents();
 
     assert.ok(clipboardWriteStub.calledOnce);
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
       copiedText,
-      "  run() {\n    function inner() {\n      return 1;\n    }"
+      "```python\nclass Outer:\n    @cache\n    def run(\n        self,\n    ):\n```"
     );
   });
 
-  test("copyFunctionWithParents should use adjusted range and preserve indented function definition", async () => {
+  test("copyFunctionDefinitionWithParents should use multiline envelope range in python", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "python",
       content:
-        "class ShardedMixtureDataset:\n    def finish_cache_shard(self):\n        return self._cache_job.result()\n",
+        "class Outer:\n    def run(\n        self,\n        value,\n    ):\n        return value\n",
     });
-    const classSymbol = createSymbol("ShardedMixtureDataset", vscode.SymbolKind.Class, 0, 0, 2, 39);
-    const methodSymbol = createSymbol(
-      "finish_cache_shard",
-      vscode.SymbolKind.Method,
-      1,
-      4,
-      2,
-      39
-    );
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 20);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 20);
     classSymbol.children = [methodSymbol];
 
     const mockEditor = {
       document,
       selection: new vscode.Selection(
-        new vscode.Position(2, 12),
-        new vscode.Position(2, 12)
+        new vscode.Position(4, 4),
+        new vscode.Position(4, 4)
       ),
     } as unknown as vscode.TextEditor;
 
@@ -1364,36 +3117,38 @@ suite("Extension Test Suite", () => {
         if (key === "rangeTemplate") {
           return ":{startLine}:{startChar}-{endLine}:{endChar}";
         }
-        if (key === "removeRootIndentation") {
-          return true;
-        }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionWithParents();
+    await copyFunctionDefinitionWithParents();
 
     assert.ok(clipboardWriteStub.calledOnce);
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
-    assert.ok(copiedText.startsWith("```python\n:2:1-3:40|"));
-    assert.ok(copiedText.includes("class ShardedMixtureDataset:"));
-    assert.ok(copiedText.includes("    def finish_cache_shard(self):"));
+    assert.ok(copiedText.startsWith("```python\n:1:1-5:7|"));
+    assert.ok(
+      copiedText.includes(
+        "class Outer:\n    def run(\n        self,\n        value,\n    ):"
+      )
+    );
+    assert.ok(!copiedText.includes("return value"));
   });
 
-  test("copyFunctionWithParents should include decorator and keep adjusted start char", async () => {
+  test("copyFunctionDefinitionWithParents should include multi-line signatures for brace languages", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content: "class Outer:\n    @cache\n    def run(self):\n        return 1\n",
+      language: "typescript",
+      content:
+        "class Outer {\n  run(\n    value: number,\n  ) {\n    return value;\n  }\n}\n",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 3, 16);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 3, 16);
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 1);
+    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
     classSymbol.children = [methodSymbol];
 
     const mockEditor = {
       document,
       selection: new vscode.Selection(
-        new vscode.Position(3, 8),
-        new vscode.Position(3, 8)
+        new vscode.Position(2, 6),
+        new vscode.Position(2, 6)
       ),
     } as unknown as vscode.TextEditor;
 
@@ -1406,28 +3161,69 @@ suite("Extension Test Suite", () => {
     sinon.stub(vscode.workspace, "getConfiguration").returns({
       get: (key: string) => {
         if (key === "template") {
-          return "{range}|{text}";
+          return "{text}";
         }
         if (key === "rangeTemplate") {
           return ":{startLine}:{startChar}-{endLine}:{endChar}";
         }
-        if (key === "removeRootIndentation") {
-          return true;
-        }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionWithParents();
+    await copyFunctionDefinitionWithParents();
 
     assert.ok(clipboardWriteStub.calledOnce);
     const copiedText = clipboardWriteStub.firstCall.args[0] as string;
-    assert.ok(copiedText.startsWith("```python\n:2:1-4:17|"));
-    assert.ok(copiedText.includes("class Outer:"));
-    assert.ok(copiedText.includes("    @cache\n    def run(self):"));
+    assert.strictEqual(copiedText, "class Outer {\n  run(\n    value: number,\n  ) {");
+    assert.ok(!copiedText.includes("return value"));
   });
 
-  test("copyFunctionWithParents should show info and not copy when no function matches", async () => {
+  test("extractDefinitionBlock should ignore brackets in strings and comments", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: [
+        "async handle(",
+        "  label = \"(\",",
+        "  /* ) { */ suffix = `${prefix}${\"}\"} {`,",
+        "  // ) {",
+        "  done = ';',",
+        "): Promise<void> {",
+        "  return;",
+        "}",
+      ].join("\n"),
+    });
+    const symbol = createSymbol("handle", vscode.SymbolKind.Method, 0, 0, 7, 1);
+
+    const block = extractDefinitionBlock(document, symbol);
+
+    assert.strictEqual(block.startLine, 0);
+    assert.strictEqual(block.endLine, 5);
+    assert.ok(block.text.endsWith("): Promise<void> {"));
+  });
+
+  test("extractDefinitionBlock should handle Rust lifetimes and body-less declarations", async () => {
+    const rust = await vscode.workspace.openTextDocument({
+      language: "rust",
+      content: "fn parse<'a>(\n    input: &'a str,\n    sep: char = '{',\n) -> &'a str {\n    input\n}\n",
+    });
+    const rustBlock = extractDefinitionBlock(
+      rust,
+      createSymbol("parse", vscode.SymbolKind.Function, 0, 0, 5, 1)
+    );
+    assert.strictEqual(rustBlock.endLine, 3);
+
+    const java = await vscode.workspace.openTextDocument({
+      language: "java",
+      content: "interface Handler {\n  void handle(\n      String value);\n  int size();\n}\n",
+    });
+    const javaBlock = extractDefinitionBlock(
+      java,
+      createSymbol("handle", vscode.SymbolKind.Method, 1, 2, 2, 20)
+    );
+    assert.strictEqual(javaBlock.text, "  void handle(\n      String value);");
+  });
+
+  test("copyFunctionDefinitionWithParents should show info and not copy when no function matches", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
       content: "class Outer {\n  value = 1;\n}\n",
@@ -1450,7 +3246,7 @@ suite("Extension Test Suite", () => {
     const clipboardWriteStub = createClipboardWriteStub();
     const infoStub = sinon.stub(vscode.window, "showInformationMessage");
 
-    await copyFunctionWithParents();
+    await copyFunctionDefinitionWithParents();
 
     assert.ok(clipboardWriteStub.notCalled);
     assert.ok(
@@ -1458,21 +3254,33 @@ suite("Extension Test Suite", () => {
     );
   });
 
-  test("copyFunctionDefinitionWithParents should copy only parent and function definitions", async () => {
+  test("copyClassOutline should elide method bodies and keep fields", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
-      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+      content: [
+        "export class Counter {",
+        "  private count = 0;",
+        "",
+        "  /** Adds one. */",
+        "  increment(): void {",
+        "    this.count += 1;",
+        "    this.notify();",
+        "  }",
+        "",
+        "  get value(): number { return this.count; }",
+        "}",
+      ].join("\n"),
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
-    classSymbol.children = [methodSymbol];
+    const classSymbol = createSymbol("Counter", vscode.SymbolKind.Class, 0, 0, 10, 1);
+    classSymbol.children = [
+      createSymbol("count", vscode.SymbolKind.Property, 1, 2, 1, 20),
+      createSymbol("increment", vscode.SymbolKind.Method, 4, 2, 7, 3),
+      createSymbol("value", vscode.SymbolKind.Property, 9, 2, 9, 45),
+    ];
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(2, 4),
-        new vscode.Position(2, 4)
-      ),
+      selection: new vscode.Selection(6, 4, 6, 4),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
@@ -1482,53 +3290,61 @@ suite("Extension Test Suite", () => {
       .resolves([classSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
     sinon.stub(vscode.workspace, "getConfiguration").returns({
-      get: (key: string) => {
-        if (key === "template") {
-          return "{text}";
-        }
-        if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
-        }
-        if (key === "removeRootIndentation") {
-          return true;
-        }
-        return undefined;
-      },
+      get: (key: string) => (key === "template" ? "{text}" : undefined),
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionDefinitionWithParents();
+    await copyClassOutline();
 
     assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
-    assert.strictEqual(copiedText, "class Outer {\n  run() {");
-    assert.ok(!copiedText.includes("return 1;"));
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      [
+        "export class Counter {",
+        "  private count = 0;",
+        "",
+        "  /** Adds one. */",
+        "  increment(): void {",
+        "    // ......",
+        "  }",
+        "",
+        "  get value(): number { return this.count; }",
+        "}",
+      ].join("\n")
+    );
   });
 
-  test("copyFunctionDefinitionWithParents should include nested parent definitions", async () => {
+  test("copyClassOutline should outline python classes with docstrings and nested classes", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
-      content:
-        "class Outer {\n  run() {\n    function inner() {\n      return 1;\n    }\n  }\n}\n",
+      language: "python",
+      content: [
+        "class Repo:",
+        "    \"\"\"Stores items.\"\"\"",
+        "    limit: int = 10",
+        "",
+        "    @property",
+        "    def size(self):",
+        "        \"\"\"Number of items.\"\"\"",
+        "        return len(self.items)",
+        "",
+        "    class Meta:",
+        "        def describe(self):",
+        "            return 'repo'",
+      ].join("\n"),
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
-    const innerFunctionSymbol = createSymbol(
-      "inner",
-      vscode.SymbolKind.Function,
-      2,
-      4,
-      4,
-      5
-    );
-    classSymbol.children = [methodSymbol];
-    methodSymbol.children = [innerFunctionSymbol];
+    const classSymbol = createSymbol("Repo", vscode.SymbolKind.Class, 0, 0, 11, 25);
+    const metaSymbol = createSymbol("Meta", vscode.SymbolKind.Class, 9, 4, 11, 25);
+    metaSymbol.children = [
+      createSymbol("describe", vscode.SymbolKind.Method, 10, 8, 11, 25),
+    ];
+    classSymbol.children = [
+      createSymbol("limit", vscode.SymbolKind.Variable, 2, 4, 2, 19),
+      createSymbol("size", vscode.SymbolKind.Method, 5, 4, 7, 30),
+      metaSymbol,
+    ];
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(3, 8),
-        new vscode.Position(3, 8)
-      ),
+      selection: new vscode.Selection(2, 4, 2, 4),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
@@ -1538,382 +3354,960 @@ suite("Extension Test Suite", () => {
       .resolves([classSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
     sinon.stub(vscode.workspace, "getConfiguration").returns({
-      get: (key: string) => {
-        if (key === "template") {
-          return "{text}";
-        }
-        if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
-        }
-        return undefined;
-      },
+      get: (key: string) => (key === "template" ? "{text}" : undefined),
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionDefinitionWithParents();
+    await copyClassOutline();
 
     assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
     assert.strictEqual(
-      copiedText,
-      "class Outer {\n  run() {\n    function inner() {"
+      clipboardWriteStub.firstCall.args[0],
+      [
+        "```python",
+        "class Repo:",
+        "    \"\"\"Stores items.\"\"\"",
+        "    limit: int = 10",
+        "",
+        "    @property",
+        "    def size(self):",
+        "        \"\"\"Number of items.\"\"\"",
+        "        # ......",
+        "",
+        "    class Meta:",
+        "        def describe(self):",
+        "            # ......",
+        "```",
+      ].join("\n")
     );
-    assert.ok(!copiedText.includes("return 1;"));
   });
 
-  test("copyFunctionDefinitionWithParents should use envelope range for parent and function definitions", async () => {
+  test("copyClassOutline should show info and not copy outside a class", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
-      content: "class Outer {\n  run() {\n    return 1;\n  }\n}\n",
+      content: "function run() {\n  return 1;\n}\n",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 4, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3);
-    classSymbol.children = [methodSymbol];
+    const functionSymbol = createSymbol("run", vscode.SymbolKind.Function, 0, 0, 2, 1);
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(2, 4),
-        new vscode.Position(2, 4)
-      ),
+      selection: new vscode.Selection(1, 2, 1, 2),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
+      .resolves([functionSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
-    sinon.stub(vscode.workspace, "getConfiguration").returns({
-      get: (key: string) => {
-        if (key === "template") {
-          return "{range}|{text}";
-        }
-        if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
-        }
-        return undefined;
-      },
-    } as vscode.WorkspaceConfiguration);
+    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
 
-    await copyFunctionDefinitionWithParents();
+    await copyClassOutline();
 
-    assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
-    assert.ok(copiedText.startsWith(":1:1-2:10|"));
-    assert.ok(copiedText.includes("class Outer {\n  run() {"));
-    assert.ok(!copiedText.includes("return 1;"));
+    assert.ok(clipboardWriteStub.notCalled);
+    assert.ok(infoStub.calledWith("Unable to identify the current class"));
   });
 
-  test("copyFunctionDefinitionWithParents should include multiline python function signature", async () => {
+  test("copyFileOutline should keep imports and expand only the function at the cursor", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content:
-        "class Outer:\n    def run(\n        self,\n        value,\n    ):\n        return value\n",
+      language: "typescript",
+      content: [
+        'import { readFile } from "fs";',
+        "",
+        "const LIMIT = 10;",
+        "",
+        "export function load(path: string) {",
+        "  return readFile(path);",
+        "}",
+        "",
+        "export function save(path: string) {",
+        "  write(path);",
+        "}",
+        "",
+        "class Store {",
+        "  items: string[] = [];",
+        "  add(item: string) {",
+        "    this.items.push(item);",
+        "  }",
+        "}",
+      ].join("\n"),
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 20);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 20);
-    classSymbol.children = [methodSymbol];
+    const storeSymbol = createSymbol("Store", vscode.SymbolKind.Class, 12, 0, 17, 1);
+    storeSymbol.children = [
+      createSymbol("items", vscode.SymbolKind.Property, 13, 2, 13, 23),
+      createSymbol("add", vscode.SymbolKind.Method, 14, 2, 16, 3),
+    ];
+    const symbols = [
+      createSymbol("LIMIT", vscode.SymbolKind.Constant, 2, 6, 2, 16),
+      createSymbol("load", vscode.SymbolKind.Function, 4, 0, 6, 1),
+      createSymbol("save", vscode.SymbolKind.Function, 8, 0, 10, 1),
+      storeSymbol,
+    ];
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(4, 4),
-        new vscode.Position(4, 4)
-      ),
+      selection: new vscode.Selection(9, 2, 9, 2),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
+      .resolves(symbols);
     const clipboardWriteStub = createClipboardWriteStub();
+    let expandCurrentFunction = true;
     sinon.stub(vscode.workspace, "getConfiguration").returns({
       get: (key: string) => {
         if (key === "template") {
-          return "{text}";
+          return "{filePath}{range}\n{text}";
         }
-        if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        if (key === "fileOutlineExpandCurrentFunction") {
+          return expandCurrentFunction;
         }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionDefinitionWithParents();
+    await copyFileOutline();
+    expandCurrentFunction = false;
+    await copyFileOutline();
 
-    assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
-    assert.strictEqual(
-      copiedText,
-      "```python\nclass Outer:\n    def run(\n        self,\n        value,\n    ):\n```"
-    );
-    assert.ok(!copiedText.includes("return value"));
+    const filePath = vscode.workspace.asRelativePath(document.uri.fsPath);
+    const expectedLines = [
+      `${filePath}`,
+      'import { readFile } from "fs";',
+      "",
+      "const LIMIT = 10;",
+      "",
+      "export function load(path: string) {",
+      "  // ......",
+      "}",
+      "",
+      "export function save(path: string) {",
+      "  write(path);",
+      "}",
+      "",
+      "class Store {",
+      "  items: string[] = [];",
+      "  add(item: string) {",
+      "    // ......",
+      "  }",
+      "}",
+    ];
+    assert.strictEqual(clipboardWriteStub.firstCall.args[0], expectedLines.join("\n"));
+    expectedLines.splice(10, 1, "  // ......");
+    assert.strictEqual(clipboardWriteStub.secondCall.args[0], expectedLines.join("\n"));
   });
 
-  test("copyFunctionDefinitionWithParents should ignore bracket characters inside python strings", async () => {
+  test("copyFunctionWithParents should prepend used imports and fill the imports placeholder", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content:
-        "class Outer:\n    def run(\n        pattern=\"(\",\n        value=1,\n    ):\n        return value\n",
+      language: "typescript",
+      content: [
+        'import { Request } from "express";',
+        'import { Logger } from "./logger";',
+        "",
+        "const LIMIT = 10;",
+        "",
+        "export function handle(req: Request) {",
+        "  return req.url;",
+        "}",
+      ].join("\n"),
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 20);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 20);
-    classSymbol.children = [methodSymbol];
+    const functionSymbol = createSymbol("handle", vscode.SymbolKind.Function, 5, 0, 7, 1);
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(4, 4),
-        new vscode.Position(4, 4)
-      ),
+      selection: new vscode.Selection(6, 2, 6, 2),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
+      .resolves([functionSymbol]);
     const clipboardWriteStub = createClipboardWriteStub();
+    let template = "{text}";
+    let includeImports = true;
     sinon.stub(vscode.workspace, "getConfiguration").returns({
       get: (key: string) => {
         if (key === "template") {
-          return "{text}";
+          return template;
         }
-        if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+        if (key === "includeImports") {
+          return includeImports;
+        }
+        if (key === "trimImportsToUsed") {
+          return true;
         }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionDefinitionWithParents();
+    await copyFunctionWithParents();
+    template = "{imports}\n---\n{text}";
+    includeImports = false;
+    await copyFunctionWithParents();
 
-    assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    const functionText = [
+      "export function handle(req: Request) {",
+      "  return req.url;",
+      "}",
+    ].join("\n");
     assert.strictEqual(
-      copiedText,
-      "```python\nclass Outer:\n    def run(\n        pattern=\"(\",\n        value=1,\n    ):\n```"
+      clipboardWriteStub.firstCall.args[0],
+      `import { Request } from "express";\n// ......\n${functionText}`
+    );
+    assert.strictEqual(
+      clipboardWriteStub.secondCall.args[0],
+      `import { Request } from "express";\n---\n${functionText}`
     );
-    assert.ok(!copiedText.includes("return value"));
   });
 
-  test("copyFunctionDefinitionWithParents should include multiline parent and function definitions", async () => {
+  test("findCallIdentifiers should skip strings, comments and keywords", () => {
+    const calls = findCallIdentifiers(
+      [
+        "if (ready) {",
+        "  // skipped(1)",
+        '  log("call(me)", `also(${x})`);',
+        "  /* hidden() */ return build (ready) + log(2);",
+        "}",
+      ].join("\n"),
+      "//"
+    );
+
+    assert.deepStrictEqual(
+      calls.map((call) => call.name),
+      ["log", "build"]
+    );
+  });
+
+  test("copyFunctionWithDependencies should append the definitions the function calls", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content:
-        "class Outer(\n    Base,\n):\n    def run(\n        self,\n    ):\n        return 1\n",
+      language: "typescript",
+      content: [
+        "function leaf() {",
+        "  return 1;",
+        "}",
+        "",
+        "function helper() {",
+        "  return leaf();",
+        "}",
+        "",
+        "function main() {",
+        "  // helper() in a comment",
+        '  const label = "format()";',
+        "  return helper() + helper();",
+        "}",
+      ].join("\n"),
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 16);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 3, 4, 6, 16);
-    classSymbol.children = [methodSymbol];
+    const symbols = [
+      createSymbol("leaf", vscode.SymbolKind.Function, 0, 0, 2, 1),
+      createSymbol("helper", vscode.SymbolKind.Function, 4, 0, 6, 1),
+      createSymbol("main", vscode.SymbolKind.Function, 8, 0, 12, 1),
+    ];
+    const definitionLines: { [line: number]: number } = { 11: 4, 5: 0, 8: 8, 4: 4, 0: 0 };
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(4, 8),
-        new vscode.Position(4, 8)
-      ),
+      selection: new vscode.Selection(11, 4, 11, 4),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
-    sinon
-      .stub(vscode.commands, "executeCommand")
+    const executeCommandStub = sinon.stub(vscode.commands, "executeCommand");
+    executeCommandStub
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
+      .resolves(symbols);
+    executeCommandStub
+      .withArgs("vscode.executeDefinitionProvider")
+      .callsFake(async (_command: string, ...args: unknown[]) => {
+        const line = definitionLines[(args[1] as vscode.Position).line];
+        return line === undefined
+          ? []
+          : [new vscode.Location(document.uri, new vscode.Position(line, 0))];
+      });
     const clipboardWriteStub = createClipboardWriteStub();
+    const settings: { [key: string]: unknown } = {
+      template: "{range}\n{text}",
+      rangeTemplate: ":{startLine}-{endLine}",
+    };
     sinon.stub(vscode.workspace, "getConfiguration").returns({
-      get: (key: string) => {
-        if (key === "template") {
-          return "{text}";
-        }
-        if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
-        }
-        return undefined;
-      },
+      get: (key: string) => settings[key],
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionDefinitionWithParents();
-
-    assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    await copyFunctionWithDependencies();
+    settings.dependencyDepth = 2;
+    settings.dependencyContent = "definition";
+    await copyFunctionWithDependencies();
+    settings.maxDependencies = 1;
+    executeCommandStub.resetHistory();
+    await copyFunctionWithDependencies();
+
+    const mainText = [
+      ":9-13",
+      "function main() {",
+      "  // helper() in a comment",
+      '  const label = "format()";',
+      "  return helper() + helper();",
+      "}",
+    ].join("\n");
     assert.strictEqual(
-      copiedText,
-      "```python\nclass Outer(\n    Base,\n):\n    def run(\n        self,\n    ):\n```"
+      clipboardWriteStub.firstCall.args[0],
+      `${mainText}\n:5-7\nfunction helper() {\n  return leaf();\n}`
+    );
+    assert.strictEqual(
+      clipboardWriteStub.secondCall.args[0],
+      `${mainText}\n:5-5\nfunction helper() {\n:1-1\nfunction leaf() {`
+    );
+    // main's own name and the first helper() call are resolved; the second
+    // helper() call is not, as the cap is reached.
+    assert.strictEqual(
+      clipboardWriteStub.thirdCall.args[0],
+      `${mainText}\n:5-5\nfunction helper() {`
+    );
+    assert.strictEqual(
+      executeCommandStub.withArgs("vscode.executeDefinitionProvider").callCount,
+      2
     );
-    assert.ok(!copiedText.includes("return 1"));
   });
 
-  test("copyFunctionDefinitionWithParents should include decorators in python definitions", async () => {
+  test("copyFunctionWithCallers should copy the picked callers' call sites with their parents", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content:
-        "class Outer:\n    @cache\n    def run(\n        self,\n    ):\n        return 1\n",
+      language: "typescript",
+      content: [
+        "function save(value: string) {",
+        "  return value;",
+        "}",
+        "",
+        "class Form {",
+        "  submit() {",
+        "    validate();",
+        "    save(this.name);",
+        "    notify();",
+        "    save(this.email);",
+        "  }",
+        "}",
+        "",
+        "function reset() {",
+        '  save("");',
+        "}",
+      ].join("\n"),
+    });
+    const formSymbol = createSymbol("Form", vscode.SymbolKind.Class, 4, 0, 11, 1);
+    const submitSymbol = createSymbol("submit", vscode.SymbolKind.Method, 5, 2, 10, 3);
+    formSymbol.children = [submitSymbol];
+    const resetSymbol = createSymbol("reset", vscode.SymbolKind.Function, 13, 0, 15, 1);
+    const symbols = [
+      createSymbol("save", vscode.SymbolKind.Function, 0, 0, 2, 1),
+      formSymbol,
+      resetSymbol,
+    ];
+    const toCallItem = (symbol: vscode.DocumentSymbol) => ({
+      name: symbol.name,
+      uri: document.uri,
+      range: symbol.range,
+      selectionRange: symbol.selectionRange,
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 16);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 16);
-    methodSymbol.selectionRange = new vscode.Range(2, 4, 2, 7);
-    classSymbol.children = [methodSymbol];
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(4, 8),
-        new vscode.Position(4, 8)
-      ),
+      selection: new vscode.Selection(1, 2, 1, 2),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
-    sinon
-      .stub(vscode.commands, "executeCommand")
+    const executeCommandStub = sinon.stub(vscode.commands, "executeCommand");
+    executeCommandStub
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
+      .resolves(symbols);
+    executeCommandStub
+      .withArgs("vscode.prepareCallHierarchy")
+      .resolves([toCallItem(symbols[0])]);
+    executeCommandStub.withArgs("vscode.provideIncomingCalls").resolves([
+      {
+        from: toCallItem(submitSymbol),
+        fromRanges: [new vscode.Range(9, 4, 9, 8), new vscode.Range(7, 4, 7, 8)],
+      },
+      { from: toCallItem(resetSymbol), fromRanges: [new vscode.Range(14, 2, 14, 6)] },
+    ]);
+    const quickPickStub = sinon
+      .stub(vscode.window, "showQuickPick")
+      .callsFake(async (items: any) =>
+        (await items).filter((item: vscode.QuickPickItem) => item.label !== "reset")
+      );
     const clipboardWriteStub = createClipboardWriteStub();
     sinon.stub(vscode.workspace, "getConfiguration").returns({
       get: (key: string) => {
         if (key === "template") {
-          return "{text}";
+          return "{range}\n{text}";
         }
         if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+          return ":{startLine}";
+        }
+        if (key === "removeRootIndentation") {
+          return false;
         }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionDefinitionWithParents();
-
-    assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
+    await copyFunctionWithCallers();
+
+    assert.deepStrictEqual(
+      (quickPickStub.firstCall.args[0] as vscode.QuickPickItem[]).map((item) => [
+        item.label,
+        item.picked,
+      ]),
+      [
+        ["submit", true],
+        ["reset", true],
+      ]
+    );
     assert.strictEqual(
-      copiedText,
-      "```python\nclass Outer:\n    @cache\n    def run(\n        self,\n    ):\n```"
+      clipboardWriteStub.firstCall.args[0],
+      [
+        ":1",
+        "function save(value: string) {",
+        "  return value;",
+        "}",
+        ":8,10",
+        "class Form {",
+        "  submit() {",
+        "    // ......",
+        "    save(this.name);",
+        "    // ......",
+        "    save(this.email);",
+      ].join("\n")
     );
   });
 
-  test("copyFunctionDefinitionWithParents should use multiline envelope range in python", async () => {
+  test("copyFunctionWithReferencedTypes should append workspace type declarations once", async () => {
     const document = await vscode.workspace.openTextDocument({
-      language: "python",
-      content:
-        "class Outer:\n    def run(\n        self,\n        value,\n    ):\n        return value\n",
+      language: "typescript",
+      content: [
+        "interface User {",
+        "  name: string;",
+        "}",
+        "",
+        "class Account {",
+        "  owner: User;",
+        "  close() {",
+        "    this.owner = undefined;",
+        "  }",
+        "}",
+        "",
+        "async function open(user: User, extra: User): Promise<Account> {",
+        "  return new Account(user);",
+        "}",
+      ].join("\n"),
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 20);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 4, 5, 20);
-    classSymbol.children = [methodSymbol];
+    const accountSymbol = createSymbol("Account", vscode.SymbolKind.Class, 4, 0, 9, 1);
+    accountSymbol.children = [
+      createSymbol("owner", vscode.SymbolKind.Property, 5, 2, 5, 14),
+      createSymbol("close", vscode.SymbolKind.Method, 6, 2, 8, 3),
+    ];
+    const symbols = [
+      createSymbol("User", vscode.SymbolKind.Interface, 0, 0, 2, 1),
+      accountSymbol,
+      createSymbol("open", vscode.SymbolKind.Function, 11, 0, 13, 1),
+    ];
+    const libraryUri = vscode.Uri.file("/project/node_modules/typescript/lib/lib.d.ts");
+    const typeLocations: { [name: string]: vscode.Location } = {
+      User: new vscode.Location(document.uri, new vscode.Position(0, 0)),
+      Account: new vscode.Location(document.uri, new vscode.Position(4, 0)),
+      Promise: new vscode.Location(libraryUri, new vscode.Position(0, 0)),
+    };
 
     const mockEditor = {
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(4, 4),
-        new vscode.Position(4, 4)
-      ),
+      selection: new vscode.Selection(12, 2, 12, 2),
     } as unknown as vscode.TextEditor;
 
     sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
-    sinon
-      .stub(vscode.commands, "executeCommand")
+    const executeCommandStub = sinon.stub(vscode.commands, "executeCommand");
+    executeCommandStub
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
+      .resolves(symbols);
+    executeCommandStub
+      .withArgs("vscode.executeTypeDefinitionProvider")
+      .callsFake(async (_command: string, ...args: unknown[]) => {
+        const position = args[1] as vscode.Position;
+        const line = document.lineAt(position.line).text;
+        const name = line.slice(position.character).match(/^\w+/)?.[0] ?? "";
+        const location = typeLocations[name];
+        return location ? [location] : [];
+      });
     const clipboardWriteStub = createClipboardWriteStub();
     sinon.stub(vscode.workspace, "getConfiguration").returns({
       get: (key: string) => {
         if (key === "template") {
-          return "{range}|{text}";
+          return "{range}\n{text}";
         }
         if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+          return ":{startLine}-{endLine}";
         }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
 
-    await copyFunctionDefinitionWithParents();
+    await copyFunctionWithReferencedTypes();
 
-    assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
-    assert.ok(copiedText.startsWith("```python\n:1:1-5:7|"));
-    assert.ok(
-      copiedText.includes(
-        "class Outer:\n    def run(\n        self,\n        value,\n    ):"
-      )
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      [
+        ":12-14",
+        "async function open(user: User, extra: User): Promise<Account> {",
+        "  return new Account(user);",
+        "}",
+        ":1-3",
+        "interface User {",
+        "  name: string;",
+        "}",
+        ":5-10",
+        "class Account {",
+        "  owner: User;",
+        "  close() {",
+        "    // ......",
+        "  }",
+        "}",
+      ].join("\n")
     );
-    assert.ok(!copiedText.includes("return value"));
   });
 
-  test("copyFunctionDefinitionWithParents should keep single-line behavior for non-python", async () => {
+  test("copyWorkingChanges should copy each hunk widened to its enclosing function", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    const git = (...args: string[]) =>
+      execFileSync(
+        "git",
+        ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+        { cwd: tempDir }
+      );
+    try {
+      const filePath = path.join(tempDir, "app.py");
+      const original = [
+        "class Service:",
+        "    def run(self):",
+        "        a = 1",
+        "        b = 2",
+        "        c = 3",
+        "        d = 4",
+        "        return a",
+        "",
+        "",
+        "def helper():",
+        "    return 0",
+        "",
+      ];
+      fs.writeFileSync(filePath, original.join("\n"));
+      git("init", "-q");
+      git("add", "app.py");
+      git("commit", "-q", "-m", "initial");
+      const changed = [...original];
+      changed[2] = "        a = 10";
+      changed[10] = "    return 1";
+      fs.writeFileSync(filePath, changed.join("\n"));
+
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      sinon.stub(vscode.window, "activeTextEditor").value({
+        document,
+        selection: new vscode.Selection(0, 0, 0, 0),
+      });
+      const classSymbol = createSymbol("Service", vscode.SymbolKind.Class, 0, 0, 6, 16);
+      classSymbol.children.push(
+        createSymbol("run", vscode.SymbolKind.Method, 1, 4, 6, 16)
+      );
+      sinon
+        .stub(vscode.commands, "executeCommand")
+        .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+        .resolves([
+          classSymbol,
+          createSymbol("helper", vscode.SymbolKind.Function, 9, 0, 10, 12),
+        ]);
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: (key: string) => {
+          if (key === "diffTemplate") {
+            return "{filePath|basename}:{oldRange}->{newRange}\n{diff}\n---\n{text}";
+          }
+          if (key === "expandChangesToFunction") {
+            return true;
+          }
+          if (key === "fileSeparatorTemplate") {
+            return "\n";
+          }
+          return undefined;
+        },
+      } as vscode.WorkspaceConfiguration);
+      const clipboardWriteStub = createClipboardWriteStub();
+
+      await copyWorkingChanges();
+
+      assert.ok(clipboardWriteStub.calledOnce);
+      assert.strictEqual(
+        clipboardWriteStub.firstCall.args[0],
+        [
+          "app.py:1-7->1-7",
+          "@@ -1,7 +1,7 @@",
+          " class Service:",
+          "     def run(self):",
+          "-        a = 1",
+          "+        a = 10",
+          "         b = 2",
+          "         c = 3",
+          "         d = 4",
+          "         return a",
+          "---",
+          "class Service:",
+          "    def run(self):",
+          "        a = 10",
+          "        b = 2",
+          "        c = 3",
+          "        d = 4",
+          "        return a",
+          "app.py:8-11->8-11",
+          "@@ -8,4 +8,4 @@ class Service:",
+          " ",
+          " ",
+          " def helper():",
+          "-    return 0",
+          "+    return 1",
+          "---",
+          "def helper():",
+          "    return 1",
+        ].join("\n")
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("copyWorkingChanges should widen the diff fence past fences in the hunk", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    const git = (...args: string[]) =>
+      execFileSync(
+        "git",
+        ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+        { cwd: tempDir }
+      );
+    try {
+      const filePath = path.join(tempDir, "README.md");
+      fs.writeFileSync(filePath, "```sh\nnpm install\n```\n");
+      git("init", "-q");
+      git("add", "README.md");
+      git("commit", "-q", "-m", "initial");
+      fs.writeFileSync(filePath, "```sh\nnpm ci\n```\n");
+
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      sinon.stub(vscode.window, "activeTextEditor").value({
+        document,
+        selection: new vscode.Selection(0, 0, 0, 0),
+      });
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: (key: string) => {
+          if (key === "diffTemplate") {
+            return "```diff\n{diff}\n```";
+          }
+          if (key === "fileSeparatorTemplate") {
+            return "\n";
+          }
+          return undefined;
+        },
+      } as vscode.WorkspaceConfiguration);
+      const clipboardWriteStub = createClipboardWriteStub();
+
+      await copyWorkingChanges();
+
+      assert.strictEqual(
+        clipboardWriteStub.firstCall.args[0],
+        [
+          "````diff",
+          "@@ -1,3 +1,3 @@",
+          " ```sh",
+          "-npm install",
+          "+npm ci",
+          " ```",
+          "````",
+        ].join("\n")
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("copySelection should fill git placeholders and the permalink from .git", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      const commit = "0123456789abcdef0123456789abcdef01234567";
+      fs.mkdirSync(path.join(tempDir, ".git", "refs", "heads"), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, ".git", "HEAD"), "ref: refs/heads/main\n");
+      fs.writeFileSync(
+        path.join(tempDir, ".git", "refs", "heads", "main"),
+        `${commit}\n`
+      );
+      fs.writeFileSync(
+        path.join(tempDir, ".git", "config"),
+        '[remote "origin"]\n\turl = git@github.com:owner/repo.git\n'
+      );
+      fs.mkdirSync(path.join(tempDir, "src"));
+      const filePath = path.join(tempDir, "src", "values.ts");
+      fs.writeFileSync(filePath, "const a = 1;\nconst b = 2;\nconst c = 3;\n");
+
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      sinon.stub(vscode.window, "activeTextEditor").value({
+        document,
+        selection: new vscode.Selection(1, 0, 3, 0),
+      });
+      sinon.stub(vscode.workspace, "getConfiguration").returns({
+        get: (key: string) =>
+          key === "template"
+            ? "{gitBranch}@{gitShortCommit} {permalink}\n{text}"
+            : key === "rangeTemplate"
+              ? ":{startLine}-{endLine}"
+              : undefined,
+      } as vscode.WorkspaceConfiguration);
+      const clipboardWriteStub = createClipboardWriteStub();
+
+      await copySelection();
+
+      assert.ok(clipboardWriteStub.calledOnce);
+      assert.strictEqual(
+        clipboardWriteStub.firstCall.args[0],
+        `main@0123456 https://github.com/owner/repo/blob/${commit}/src/values.ts#L2-L3\n` +
+          "const b = 2;\nconst c = 3;\n"
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("copyWithProblems should list and inline the problems in the function at the cursor", async () => {
     const document = await vscode.workspace.openTextDocument({
       language: "typescript",
-      content:
-        "class Outer {\n  run(\n    value: number,\n  ) {\n    return value;\n  }\n}\n",
+      content: "class Outer {\n  run() {\n    const a: string = 1;\n    return b;\n  }\n}\nlet c = d;\n",
     });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 6, 1);
-    const methodSymbol = createSymbol("run", vscode.SymbolKind.Method, 1, 2, 5, 3);
-    classSymbol.children = [methodSymbol];
+    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 5, 1);
+    classSymbol.children = [createSymbol("run", vscode.SymbolKind.Method, 1, 2, 4, 3)];
+    const typeError = new vscode.Diagnostic(
+      new vscode.Range(2, 10, 2, 11),
+      "Type 'number' is not assignable\nto type 'string'.",
+      vscode.DiagnosticSeverity.Error
+    );
+    typeError.source = "ts";
+    typeError.code = 2322;
+    const nameError = new vscode.Diagnostic(
+      new vscode.Range(3, 11, 3, 12),
+      "Cannot find name 'b'.",
+      vscode.DiagnosticSeverity.Error
+    );
+    nameError.code = { value: 2304, target: vscode.Uri.parse("https://example.com") };
 
-    const mockEditor = {
+    sinon.stub(vscode.window, "activeTextEditor").value({
       document,
-      selection: new vscode.Selection(
-        new vscode.Position(2, 6),
-        new vscode.Position(2, 6)
-      ),
-    } as unknown as vscode.TextEditor;
-
-    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
+      selection: new vscode.Selection(3, 4, 3, 4),
+    });
     sinon
       .stub(vscode.commands, "executeCommand")
       .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
       .resolves([classSymbol]);
-    const clipboardWriteStub = createClipboardWriteStub();
+    (sinon.stub(vscode.languages, "getDiagnostics") as sinon.SinonStub).returns([
+      nameError,
+      new vscode.Diagnostic(
+        new vscode.Range(2, 10, 2, 11),
+        "'a' is declared but never used.",
+        vscode.DiagnosticSeverity.Hint
+      ),
+      new vscode.Diagnostic(
+        new vscode.Range(6, 8, 6, 9),
+        "Cannot find name 'd'.",
+        vscode.DiagnosticSeverity.Error
+      ),
+      typeError,
+    ]);
     sinon.stub(vscode.workspace, "getConfiguration").returns({
       get: (key: string) => {
         if (key === "template") {
           return "{text}";
         }
         if (key === "rangeTemplate") {
-          return ":{startLine}:{startChar}-{endLine}:{endChar}";
+          return ":{startLine}";
+        }
+        if (key === "inlineDiagnostics") {
+          return true;
         }
         return undefined;
       },
     } as vscode.WorkspaceConfiguration);
+    const clipboardWriteStub = createClipboardWriteStub();
 
-    await copyFunctionDefinitionWithParents();
+    await copyWithProblems();
 
     assert.ok(clipboardWriteStub.calledOnce);
-    const copiedText = clipboardWriteStub.firstCall.args[0] as string;
-    assert.strictEqual(copiedText, "class Outer {\n  run(");
-    assert.ok(!copiedText.includes("value: number"));
-    assert.ok(!copiedText.includes("return value"));
+    assert.strictEqual(
+      clipboardWriteStub.firstCall.args[0],
+      [
+        "class Outer {",
+        "  run() {",
+        "    const a: string = 1;  // Error: Type 'number' is not assignable to type 'string'.",
+        "    return b;  // Error: Cannot find name 'b'.",
+        "  }",
+        "Problems:",
+        "- Error ts 2322 (line 3): Type 'number' is not assignable to type 'string'.",
+        "- Error 2304 (line 4): Cannot find name 'b'.",
+        "",
+      ].join("\n")
+    );
   });
 
-  test("copyFunctionDefinitionWithParents should show info and not copy when no function matches", async () => {
-    const document = await vscode.workspace.openTextDocument({
-      language: "typescript",
-      content: "class Outer {\n  value = 1;\n}\n",
-    });
-    const classSymbol = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 2, 1);
-
-    const mockEditor = {
-      document,
-      selection: new vscode.Selection(
-        new vscode.Position(1, 4),
-        new vscode.Position(1, 4)
-      ),
-    } as unknown as vscode.TextEditor;
-
-    sinon.stub(vscode.window, "activeTextEditor").value(mockEditor);
-    sinon
-      .stub(vscode.commands, "executeCommand")
-      .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
-      .resolves([classSymbol]);
-    const clipboardWriteStub = createClipboardWriteStub();
-    const infoStub = sinon.stub(vscode.window, "showInformationMessage");
-
-    await copyFunctionDefinitionWithParents();
+  test("copyLocation should copy one reference per cursor in the chosen format", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      const filePath = path.join(tempDir, "app.ts");
+      fs.writeFileSync(
+        filePath,
+        "class Service {\n  run() {\n    return 1;\n  }\n}\nconst total = 2;\n"
+      );
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      const classSymbol = createSymbol("Service", vscode.SymbolKind.Class, 0, 0, 4, 1);
+      classSymbol.children = [createSymbol("run", vscode.SymbolKind.Method, 1, 2, 3, 3)];
+      const selections = [
+        new vscode.Selection(5, 6, 5, 11),
+        new vscode.Selection(2, 4, 2, 4),
+        new vscode.Selection(3, 2, 3, 2),
+      ];
+      sinon.stub(vscode.window, "activeTextEditor").value({
+        document,
+        selection: selections[0],
+        selections,
+      });
+      sinon
+        .stub(vscode.commands, "executeCommand")
+        .withArgs("vscode.executeDocumentSymbolProvider", document.uri)
+        .resolves([classSymbol]);
+      const clipboardWriteStub = createClipboardWriteStub();
+
+      await copyLocation();
+      await copyLocation("markdownLink");
+      await copyLocation("vscodeUri");
+      await copyLocation("{filePath|basename}:{line}-{endLine} {symbol}");
+
+      assert.deepStrictEqual(
+        clipboardWriteStub.getCalls().map((call) => call.args[0]),
+        [
+          `${filePath}:2:3\n${filePath}:6:7`,
+          `[Service.run](${filePath}#L2)\n[${filePath}:6](${filePath}#L6)`,
+          `vscode://file${vscode.Uri.file(filePath).path}:2:3\n` +
+            `vscode://file${vscode.Uri.file(filePath).path}:6:7`,
+          "app.ts:2-4 Service.run\napp.ts:6-6 ",
+        ]
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
 
-    assert.ok(clipboardWriteStub.notCalled);
-    assert.ok(
-      infoStub.calledWith("Unable to identify the current function")
-    );
+  test("copyFunctionQualifiedName should compose language-aware names by style", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      fs.mkdirSync(path.join(tempDir, "pkg", "sub"), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, "pkg", "__init__.py"), "");
+      fs.writeFileSync(path.join(tempDir, "pkg", "sub", "__init__.py"), "");
+      const pythonPath = path.join(tempDir, "pkg", "sub", "module.py");
+      fs.writeFileSync(pythonPath, "class Outer:\n    def run(self):\n        pass\n");
+      fs.mkdirSync(path.join(tempDir, "crate", "src", "net"), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, "crate", "Cargo.toml"), "[package]\n");
+      const rustPath = path.join(tempDir, "crate", "src", "net", "mod.rs");
+      fs.writeFileSync(rustPath, "impl<T> Display for Outer<T> {\n    fn fmt() {}\n}\n");
+
+      const pythonDocument = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(pythonPath)
+      );
+      const rustDocument = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(rustPath)
+      );
+      const javaDocument = await vscode.workspace.openTextDocument({
+        language: "java",
+        content:
+          "package com.acme;\n\nclass Outer {\n  void run(String name) {}\n}\n",
+      });
+      const cppDocument = await vscode.workspace.openTextDocument({
+        language: "cpp",
+        content: "namespace ns {\nclass Outer {\n  void run() {}\n};\n}\n",
+      });
+
+      const pythonClass = createSymbol("Outer", vscode.SymbolKind.Class, 0, 0, 2, 12);
+      pythonClass.children = [createSymbol("run", vscode.SymbolKind.Method, 1, 4, 2, 12)];
+      const rustImpl = createSymbol(
+        "impl<T> Display for Outer<T>",
+        vscode.SymbolKind.Object,
+        0,
+        0,
+        2,
+        1
+      );
+      rustImpl.children = [createSymbol("fmt", vscode.SymbolKind.Method, 1, 4, 1, 15)];
+      const javaClass = createSymbol("Outer", vscode.SymbolKind.Class, 2, 0, 4, 1);
+      javaClass.children = [
+        createSymbol("run(String)", vscode.SymbolKind.Method, 3, 2, 3, 26),
+      ];
+      const cppNamespace = createSymbol("ns", vscode.SymbolKind.Namespace, 0, 0, 4, 1);
+      const cppClass = createSymbol("Outer", vscode.SymbolKind.Class, 1, 0, 3, 2);
+      cppClass.children = [createSymbol("run", vscode.SymbolKind.Method, 2, 2, 2, 15)];
+      cppNamespace.children = [cppClass];
+
+      const executeCommandStub = sinon.stub(vscode.commands, "executeCommand");
+      executeCommandStub
+        .withArgs("vscode.executeDocumentSymbolProvider", pythonDocument.uri)
+        .resolves([pythonClass]);
+      executeCommandStub
+        .withArgs("vscode.executeDocumentSymbolProvider", rustDocument.uri)
+        .resolves([rustImpl]);
+      executeCommandStub
+        .withArgs("vscode.executeDocumentSymbolProvider", javaDocument.uri)
+        .resolves([javaClass]);
+      executeCommandStub
+        .withArgs("vscode.executeDocumentSymbolProvider", cppDocument.uri)
+        .resolves([cppNamespace]);
+      const activeEditorStub = sinon.stub(vscode.window, "activeTextEditor");
+      const clipboardWriteStub = createClipboardWriteStub();
+      const infoStub = sinon.stub(vscode.window, "showInformationMessage");
+      const editorAt = (document: vscode.TextDocument, line: number, character: number) =>
+        ({
+          document,
+          selection: new vscode.Selection(line, character, line, character),
+        }) as unknown as vscode.TextEditor;
+
+      activeEditorStub.value(editorAt(pythonDocument, 2, 8));
+      await copyFunctionQualifiedName("python");
+      activeEditorStub.value(editorAt(rustDocument, 1, 8));
+      await copyFunctionQualifiedName("rust");
+      activeEditorStub.value(editorAt(javaDocument, 3, 10));
+      await copyFunctionQualifiedName("java");
+      activeEditorStub.value(editorAt(cppDocument, 2, 8));
+      await copyFunctionQualifiedName("cpp");
+      await copyFunctionQualifiedName("go");
+
+      assert.deepStrictEqual(
+        clipboardWriteStub.getCalls().map((call) => call.args[0]),
+        [
+          "`pkg.sub.module.Outer.run`",
+          "`crate::net::Outer::fmt`",
+          "`com.acme.Outer#run`",
+          "`ns::Outer::run`",
+        ]
+      );
+      assert.ok(infoStub.calledWith("Unknown qualified name style: go"));
+
+      const showQuickPickStub = sinon.stub(vscode.window, "showQuickPick");
+      showQuickPickStub.callsFake(async (items) => (await items)[0]);
+      activeEditorStub.value(editorAt(pythonDocument, 2, 8));
+      await copyFunctionQualifiedName();
+
+      const pickedItems = (await showQuickPickStub.firstCall.args[0]) as vscode.QuickPickItem[];
+      assert.deepStrictEqual(
+        pickedItems.map((item) => item.description),
+        ["Python import path", "pytest node ID", "Names in this file"]
+      );
+      assert.strictEqual(pickedItems[2].label, "Outer.run");
+      assert.ok(pickedItems[1].label.endsWith("module.py::Outer::run"));
+      assert.strictEqual(clipboardWriteStub.lastCall.args[0], "`pkg.sub.module.Outer.run`");
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
   });
 });
@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { outlineDocument } from "../fallbackOutliner";
+
+suite("Fallback Outliner Test Suite", () => {
+  function describeSymbols(symbols: vscode.DocumentSymbol[]): unknown[] {
+    return symbols.map((symbol) => ({
+      name: symbol.name,
+      kind: vscode.SymbolKind[symbol.kind],
+      lines: [symbol.range.start.line, symbol.range.end.line],
+      children: describeSymbols(symbol.children),
+    }));
+  }
+
+  test("outlineDocument should nest python definitions by indentation", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: [
+        "class Outer:",
+        "    def run(",
+        "        self,",
+        "    ):",
+        "        def inner():",
+        "            return 1",
+        "",
+        "        return inner()",
+        "",
+        "async def main():",
+        "    pass",
+      ].join("\n"),
+    });
+
+    assert.deepStrictEqual(describeSymbols(outlineDocument(document)), [
+      {
+        name: "Outer",
+        kind: "Class",
+        lines: [0, 7],
+        children: [
+          {
+            name: "run",
+            kind: "Method",
+            lines: [1, 7],
+            children: [{ name: "inner", kind: "Function", lines: [4, 5], children: [] }],
+          },
+        ],
+      },
+      { name: "main", kind: "Function", lines: [9, 10], children: [] },
+    ]);
+  });
+
+  test("outlineDocument should include closing braces and end keywords", async () => {
+    const go = await vscode.workspace.openTextDocument({
+      language: "go",
+      content: "func (s *Server) Start() error {\n\treturn nil\n}\n\nfunc stop() {}\n",
+    });
+    assert.deepStrictEqual(describeSymbols(outlineDocument(go)), [
+      { name: "Start", kind: "Function", lines: [0, 2], children: [] },
+      { name: "stop", kind: "Function", lines: [4, 4], children: [] },
+    ]);
+
+    const lua = await vscode.workspace.openTextDocument({
+      language: "lua",
+      content: "local function helper(x)\n  return x\nend\n",
+    });
+    const [helper] = outlineDocument(lua);
+    assert.strictEqual(helper.name, "helper");
+    assert.strictEqual(helper.range.end.line, 2);
+    assert.deepStrictEqual(
+      [helper.selectionRange.start.character, helper.selectionRange.end.character],
+      [15, 21]
+    );
+  });
+
+  test("outlineDocument should use the default keywords for unknown languages", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "plaintext",
+      content: "sub greet {\n  print 'hi';\n}\nnot a definition\n",
+    });
+
+    assert.deepStrictEqual(describeSymbols(outlineDocument(document)), [
+      { name: "greet", kind: "Function", lines: [0, 2], children: [] },
+    ]);
+  });
+});
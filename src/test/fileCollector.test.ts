@@ -0,0 +1,140 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  collectFiles,
+  globToRegExpSource,
+  isBinaryContent,
+  isIgnoredByRules,
+  parseGitignore,
+} from "../fileCollector";
+
+suite("File Collector Test Suite", () => {
+  let tempDir: string;
+
+  setup(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeFile(relativePath: string, content: string | Uint8Array) {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  test("globToRegExpSource should translate wildcards", () => {
+    const matches = (glob: string, value: string) =>
+      new RegExp(`^${globToRegExpSource(glob)}$`).test(value);
+
+    assert.ok(matches("*.log", "debug.log"));
+    assert.ok(!matches("*.log", "logs/debug.log"));
+    assert.ok(matches("**/node_modules", "node_modules"));
+    assert.ok(matches("**/node_modules", "packages/app/node_modules"));
+    assert.ok(matches("dist/**", "dist/a/b.js"));
+    assert.ok(matches("file?.[jt]s", "file1.ts"));
+    assert.ok(matches("*.{png,jpg}", "icon.jpg"));
+    assert.ok(!matches("*.{png,jpg}", "icon.gif"));
+  });
+
+  test("isIgnoredByRules should follow gitignore anchoring and negation", () => {
+    const rules = parseGitignore(
+      "# build output\n/dist\nlogs/\n*.log\n!keep.log\nsrc/**/*.gen.ts\n",
+      "/repo"
+    );
+
+    assert.ok(isIgnoredByRules(rules, "/repo/dist", true));
+    assert.ok(!isIgnoredByRules(rules, "/repo/pkg/dist", true));
+    assert.ok(isIgnoredByRules(rules, "/repo/pkg/logs", true));
+    assert.ok(!isIgnoredByRules(rules, "/repo/pkg/logs", false));
+    assert.ok(isIgnoredByRules(rules, "/repo/pkg/debug.log", false));
+    assert.ok(!isIgnoredByRules(rules, "/repo/keep.log", false));
+    assert.ok(isIgnoredByRules(rules, "/repo/src/a/b/model.gen.ts", false));
+    assert.ok(!isIgnoredByRules(rules, "/repo/lib/model.gen.ts", false));
+    assert.ok(!isIgnoredByRules(rules, "/other/dist", true));
+  });
+
+  test("isBinaryContent should detect NUL bytes", () => {
+    assert.ok(!isBinaryContent(new TextEncoder().encode("plain text")));
+    assert.ok(isBinaryContent(new Uint8Array([0x89, 0x50, 0x00, 0x47])));
+  });
+
+  test("collectFiles should walk folders and skip ignored and binary files", async () => {
+    writeFile(".gitignore", "generated/\n*.tmp\n");
+    writeFile("a.ts", "export const a = 1;\n");
+    writeFile("nested/b.py", "b = 2\n");
+    writeFile("nested/.gitignore", "local.txt\n");
+    writeFile("nested/local.txt", "ignored\n");
+    writeFile("generated/out.ts", "ignored\n");
+    writeFile("scratch.tmp", "ignored\n");
+    writeFile("image.png", new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00]));
+
+    const { files, skippedBinaryFiles } = await collectFiles([
+      vscode.Uri.file(tempDir),
+    ]);
+
+    assert.deepStrictEqual(
+      files.map((uri) => path.relative(tempDir, uri.fsPath).replace(/\\/g, "/")),
+      [".gitignore", "a.ts", "nested/.gitignore", "nested/b.py"]
+    );
+    assert.deepStrictEqual(
+      skippedBinaryFiles.map((uri) => path.basename(uri.fsPath)),
+      ["image.png"]
+    );
+  });
+
+  test("collectFiles should keep explicitly selected files and drop duplicates", async () => {
+    writeFile(".gitignore", "*.tmp\n");
+    writeFile("scratch.tmp", "explicit\n");
+    writeFile("a.ts", "export const a = 1;\n");
+
+    const { files } = await collectFiles([
+      vscode.Uri.file(path.join(tempDir, "scratch.tmp")),
+      vscode.Uri.file(path.join(tempDir, "a.ts")),
+      vscode.Uri.file(tempDir),
+    ]);
+
+    assert.deepStrictEqual(
+      files.map((uri) => path.basename(uri.fsPath)),
+      ["scratch.tmp", "a.ts", ".gitignore"]
+    );
+  });
+
+  test("collectFiles should ask once before going past maxFiles or maxBytes", async () => {
+    writeFile("a.ts", "a\n");
+    writeFile("b.ts", "b\n");
+    writeFile("c.ts", "c\n");
+    const asked: string[] = [];
+
+    const declined = await collectFiles([vscode.Uri.file(tempDir)], undefined, {
+      maxFiles: 2,
+      maxBytes: 0,
+      confirmOverLimit: async (exceeded) => {
+        asked.push(exceeded);
+        return false;
+      },
+    });
+    const confirmed = await collectFiles([vscode.Uri.file(tempDir)], undefined, {
+      maxFiles: 0,
+      maxBytes: 3,
+      confirmOverLimit: async (exceeded) => {
+        asked.push(exceeded);
+        return true;
+      },
+    });
+
+    assert.deepStrictEqual(asked, ["maxFiles", "maxBytes"]);
+    assert.strictEqual(declined.cancelled, true);
+    assert.deepStrictEqual(
+      declined.files.map((uri) => path.basename(uri.fsPath)),
+      ["a.ts", "b.ts"]
+    );
+    assert.strictEqual(confirmed.cancelled, false);
+    assert.strictEqual(confirmed.files.length, 3);
+  });
+});
@@ -0,0 +1,211 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createAddedFileDiff,
+  DiffHunk,
+  expandHunks,
+  formatHunkHeader,
+  formatHunkLineRange,
+  getFirstChangedLine,
+  getHunkNewText,
+  parseUnifiedDiff,
+  readGitChanges,
+} from "../gitDiff";
+
+suite("Git Diff Test Suite", () => {
+  test("parseUnifiedDiff should read files and hunks by their line counts", () => {
+    const files = parseUnifiedDiff(
+      [
+        "diff --git a/src/app.ts b/src/app.ts",
+        "index 1111111..2222222 100644",
+        "--- a/src/app.ts",
+        "+++ b/src/app.ts",
+        "@@ -2,3 +2,3 @@ function run() {",
+        "   const a = 1;",
+        "--- old comment",
+        "+++ new comment",
+        "   return a;",
+        "@@ -10 +10,2 @@",
+        " end",
+        "+tail",
+        "\\ No newline at end of file",
+        "diff --git a/notes.txt b/notes.txt",
+        "deleted file mode 100644",
+        "--- a/notes.txt",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-gone",
+        'diff --git "a/my file.bin" "b/my file.bin"',
+        "new file mode 100644",
+        "Binary files /dev/null and \"b/my file.bin\" differ",
+        "",
+      ].join("\n")
+    );
+
+    assert.strictEqual(files.length, 3);
+    assert.strictEqual(files[0].oldPath, "src/app.ts");
+    assert.strictEqual(files[0].newPath, "src/app.ts");
+    assert.deepStrictEqual(files[0].hunks[0], {
+      oldStart: 2,
+      oldLines: 3,
+      newStart: 2,
+      newLines: 3,
+      section: "function run() {",
+      lines: ["   const a = 1;", "--- old comment", "+++ new comment", "   return a;"],
+    });
+    assert.deepStrictEqual(files[0].hunks[1].lines, [
+      " end",
+      "+tail",
+      "\\ No newline at end of file",
+    ]);
+    assert.strictEqual(files[0].hunks[1].oldLines, 1);
+    assert.strictEqual(files[1].oldPath, "notes.txt");
+    assert.strictEqual(files[1].newPath, undefined);
+    assert.deepStrictEqual(files[1].hunks[0].lines, ["-gone"]);
+    assert.strictEqual(files[2].oldPath, undefined);
+    assert.strictEqual(files[2].newPath, "my file.bin");
+    assert.strictEqual(files[2].binary, true);
+  });
+
+  test("hunk helpers should format headers, ranges and new text", () => {
+    const hunk: DiffHunk = {
+      oldStart: 4,
+      oldLines: 3,
+      newStart: 4,
+      newLines: 3,
+      section: "",
+      lines: [" a", "-b", "+c", " d"],
+    };
+
+    assert.strictEqual(formatHunkHeader(hunk), "@@ -4,3 +4,3 @@");
+    assert.strictEqual(formatHunkLineRange(4, 3), "4-6");
+    assert.strictEqual(formatHunkLineRange(7, 1), "7");
+    assert.strictEqual(formatHunkLineRange(7, 0), "7");
+    assert.strictEqual(getHunkNewText(hunk), "a\nc\nd");
+    assert.strictEqual(getFirstChangedLine(hunk), 5);
+  });
+
+  test("expandHunks should widen hunks to their span and merge hunks in the same span", () => {
+    const newLines = [
+      "def f():",
+      "    a = 1",
+      "    b = 2",
+      "    c = 3",
+      "    d = 4",
+      "    e = 5",
+      "",
+      "x = 1",
+    ];
+    const first: DiffHunk = {
+      oldStart: 2,
+      oldLines: 1,
+      newStart: 2,
+      newLines: 1,
+      section: "",
+      lines: ["-    a = 0", "+    a = 1"],
+    };
+    const second: DiffHunk = {
+      oldStart: 5,
+      oldLines: 0,
+      newStart: 5,
+      newLines: 1,
+      section: "",
+      lines: ["+    d = 4"],
+    };
+    const outside: DiffHunk = {
+      oldStart: 7,
+      oldLines: 1,
+      newStart: 8,
+      newLines: 1,
+      section: "",
+      lines: ["-x = 0", "+x = 1"],
+    };
+
+    const expanded = expandHunks(
+      [first, second, outside],
+      (hunk) => (hunk === outside ? undefined : { startLine: 1, endLine: 6 }),
+      (line) => newLines[line - 1]
+    );
+
+    assert.strictEqual(expanded.length, 2);
+    assert.deepStrictEqual(expanded[0].hunk, {
+      oldStart: 1,
+      oldLines: 5,
+      newStart: 1,
+      newLines: 6,
+      section: "",
+      lines: [
+        " def f():",
+        "-    a = 0",
+        "+    a = 1",
+        "     b = 2",
+        "     c = 3",
+        "+    d = 4",
+        "     e = 5",
+      ],
+    });
+    assert.deepStrictEqual(expanded[0].span, { startLine: 1, endLine: 6 });
+    assert.strictEqual(expanded[1].hunk, outside);
+    assert.strictEqual(expanded[1].span, undefined);
+  });
+
+  test("createAddedFileDiff should add every line and skip binary content", () => {
+    assert.deepStrictEqual(createAddedFileDiff("new.txt", Buffer.from("a\nb")), {
+      newPath: "new.txt",
+      binary: false,
+      hunks: [
+        {
+          oldStart: 0,
+          oldLines: 0,
+          newStart: 1,
+          newLines: 2,
+          section: "",
+          lines: ["+a", "+b", "\\ No newline at end of file"],
+        },
+      ],
+    });
+    assert.deepStrictEqual(createAddedFileDiff("empty.txt", Buffer.alloc(0)).hunks, []);
+    assert.strictEqual(createAddedFileDiff("image.png", Buffer.from([1, 0, 2])).binary, true);
+  });
+
+  test("readGitChanges should read staged, unstaged and untracked working changes", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    const git = (...args: string[]) =>
+      execFileSync(
+        "git",
+        ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+        { cwd: tempDir }
+      );
+    try {
+      fs.writeFileSync(path.join(tempDir, ".gitignore"), "*.log\n");
+      fs.writeFileSync(path.join(tempDir, "staged.txt"), "old\n");
+      fs.writeFileSync(path.join(tempDir, "edited.txt"), "old\n");
+      git("init", "-q");
+      git("add", ".");
+      git("commit", "-q", "-m", "initial");
+      fs.writeFileSync(path.join(tempDir, "staged.txt"), "new\n");
+      git("add", "staged.txt");
+      fs.writeFileSync(path.join(tempDir, "edited.txt"), "new\n");
+      fs.writeFileSync(path.join(tempDir, "untracked.txt"), "added\n");
+      fs.writeFileSync(path.join(tempDir, "debug.log"), "ignored\n");
+
+      const working = await readGitChanges(tempDir, false);
+      const staged = await readGitChanges(tempDir, true);
+
+      assert.deepStrictEqual(
+        working.files.map((file) => file.newPath),
+        ["edited.txt", "staged.txt", "untracked.txt"]
+      );
+      assert.deepStrictEqual(working.files[2].hunks[0].lines, ["+added"]);
+      assert.deepStrictEqual(
+        staged.files.map((file) => file.newPath),
+        ["staged.txt"]
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildPermalink,
+  parseGitConfig,
+  parseRemoteUrl,
+  readGitMetadata,
+} from "../gitMetadata";
+
+const COMMIT = "0123456789abcdef0123456789abcdef01234567";
+
+suite("Git Metadata Test Suite", () => {
+  test("readGitMetadata should read the branch, commit and branch remote", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      const gitDir = path.join(tempDir, ".git");
+      fs.mkdirSync(path.join(gitDir, "refs", "heads"), { recursive: true });
+      fs.writeFileSync(path.join(gitDir, "HEAD"), "ref: refs/heads/feature/x\n");
+      fs.writeFileSync(
+        path.join(gitDir, "packed-refs"),
+        `# pack-refs with: peeled fully-peeled sorted\n${COMMIT} refs/heads/feature/x\n`
+      );
+      fs.writeFileSync(
+        path.join(gitDir, "config"),
+        [
+          "[core]",
+          "\tbare = false",
+          '[remote "origin"]',
+          "\turl = git@github.com:owner/fork.git",
+          '[remote "upstream"]',
+          "\turl = https://gitlab.com/group/project.git",
+          '[branch "feature/x"]',
+          "\tremote = upstream",
+        ].join("\n")
+      );
+      fs.mkdirSync(path.join(tempDir, "src"));
+
+      assert.deepStrictEqual(readGitMetadata(path.join(tempDir, "src", "app.ts")), {
+        root: tempDir,
+        branch: "feature/x",
+        commit: COMMIT,
+        remoteUrl: "https://gitlab.com/group/project.git",
+      });
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("readGitMetadata should follow worktree .git files and detached heads", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      const commonDir = path.join(tempDir, "main", ".git");
+      const worktreeGitDir = path.join(commonDir, "worktrees", "wt");
+      fs.mkdirSync(worktreeGitDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(commonDir, "config"),
+        '[remote "origin"]\n\turl = https://codeberg.org/me/repo\n'
+      );
+      fs.writeFileSync(path.join(worktreeGitDir, "HEAD"), `${COMMIT}\n`);
+      fs.writeFileSync(path.join(worktreeGitDir, "commondir"), "../..\n");
+      fs.mkdirSync(path.join(tempDir, "wt"));
+      fs.writeFileSync(
+        path.join(tempDir, "wt", ".git"),
+        "gitdir: ../main/.git/worktrees/wt\n"
+      );
+
+      assert.deepStrictEqual(readGitMetadata(path.join(tempDir, "wt", "a.py")), {
+        root: path.join(tempDir, "wt"),
+        branch: "",
+        commit: COMMIT,
+        remoteUrl: "https://codeberg.org/me/repo",
+      });
+      assert.strictEqual(
+        readGitMetadata(path.join(path.parse(tempDir).root, "a.py")),
+        undefined
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("readGitMetadata should read each repository once per cache", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "copy-paste-template-"));
+    try {
+      fs.mkdirSync(path.join(tempDir, ".git"));
+      fs.writeFileSync(path.join(tempDir, ".git", "HEAD"), `${COMMIT}\n`);
+      const cache = new Map();
+
+      const first = readGitMetadata(path.join(tempDir, "a.ts"), cache);
+      fs.writeFileSync(path.join(tempDir, ".git", "HEAD"), "ref: refs/heads/main\n");
+
+      assert.strictEqual(readGitMetadata(path.join(tempDir, "b.ts"), cache), first);
+      assert.strictEqual(readGitMetadata(path.join(tempDir, "b.ts"))?.branch, "main");
+      assert.deepStrictEqual([...cache.keys()], [tempDir]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("parseRemoteUrl and parseGitConfig should handle common forms", () => {
+    const expected = { host: "github.com", repository: "owner/repo" };
+    assert.deepStrictEqual(parseRemoteUrl("git@github.com:owner/repo.git"), expected);
+    assert.deepStrictEqual(parseRemoteUrl("ssh://git@github.com:22/owner/repo.git"), expected);
+    assert.deepStrictEqual(parseRemoteUrl("https://user@github.com/owner/repo/"), expected);
+    assert.strictEqual(parseRemoteUrl("/srv/git/repo.git"), undefined);
+
+    const config = parseGitConfig(
+      '[Remote "my \\"remote\\""]\n  URL = "https://x/y"\n; comment\n'
+    );
+    assert.strictEqual(config.get('remote my "remote"')?.get("url"), "https://x/y");
+  });
+
+  test("buildPermalink should use each host's blob path and line anchor", () => {
+    const lines = { startLine: 10, endLine: 20 };
+    assert.strictEqual(
+      buildPermalink("git@github.com:owner/repo.git", COMMIT, "src/my file.ts", lines),
+      `https://github.com/owner/repo/blob/${COMMIT}/src/my%20file.ts#L10-L20`
+    );
+    assert.strictEqual(
+      buildPermalink("https://gitlab.com/group/sub/project.git", COMMIT, "a.py", lines),
+      `https://gitlab.com/group/sub/project/-/blob/${COMMIT}/a.py#L10-20`
+    );
+    assert.strictEqual(
+      buildPermalink("git@bitbucket.org:team/repo.git", COMMIT, "a.py", {
+        startLine: 5,
+        endLine: 5,
+      }),
+      `https://bitbucket.org/team/repo/src/${COMMIT}/a.py#lines-5`
+    );
+    assert.strictEqual(
+      buildPermalink("https://codeberg.org/me/repo", COMMIT, "a.py"),
+      `https://codeberg.org/me/repo/src/commit/${COMMIT}/a.py`
+    );
+    assert.strictEqual(
+      buildPermalink("git@git.example.com:team/repo.git", COMMIT, "a.py", lines, {
+        "git.example.com": "gitlab",
+      }),
+      `https://git.example.com/team/repo/-/blob/${COMMIT}/a.py#L10-20`
+    );
+    assert.strictEqual(
+      buildPermalink("git@git.example.com:team/repo.git", COMMIT, "a.py", lines),
+      ""
+    );
+  });
+});
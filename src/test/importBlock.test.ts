@@ -0,0 +1,178 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import {
+  filterUsedImports,
+  findImportBlock,
+  getImportedNames,
+} from "../importBlock";
+
+suite("Import Block Test Suite", () => {
+  test("findImportBlock should keep multi-line imports and skip the preamble", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: [
+        "// Copyright header",
+        '"use strict";',
+        "",
+        'import * as path from "path";',
+        "import {",
+        "  Request,",
+        "  Response,",
+        '} from "express";',
+        "// Logging",
+        'const log = require("debug")("app");',
+        "",
+        "export function handle() {}",
+      ].join("\n"),
+    });
+
+    assert.deepStrictEqual(findImportBlock(document), {
+      startLine: 3,
+      endLine: 9,
+    });
+  });
+
+  test("findImportBlock should skip python module docstrings", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "python",
+      content: [
+        '"""Command line entry point.',
+        "",
+        "Parses arguments.",
+        '"""',
+        "from __future__ import annotations",
+        "",
+        "import os",
+        "from pathlib import (",
+        "    Path,",
+        ")",
+        "",
+        "LIMIT = 10",
+      ].join("\n"),
+    });
+
+    assert.deepStrictEqual(findImportBlock(document), {
+      startLine: 4,
+      endLine: 9,
+    });
+  });
+
+  test("findImportBlock should handle go import groups and return undefined without imports", async () => {
+    const goDocument = await vscode.workspace.openTextDocument({
+      language: "go",
+      content: 'package main\n\nimport (\n\t"fmt"\n\t"os"\n)\n\nfunc main() {}\n',
+    });
+    const plainDocument = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: "const value = 1;\nimport x from \"late\";\n",
+    });
+
+    assert.deepStrictEqual(findImportBlock(goDocument), {
+      startLine: 2,
+      endLine: 5,
+    });
+    assert.strictEqual(findImportBlock(plainDocument), undefined);
+  });
+
+  test("findImportBlock should stop at local export lists and preprocessor directives", async () => {
+    const typescriptDocument = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: [
+        'import { a } from "./a";',
+        "export {",
+        "  b,",
+        '} from "./b";',
+        "export { a, local };",
+        "const local = 1;",
+      ].join("\n"),
+    });
+    const cDocument = await vscode.workspace.openTextDocument({
+      language: "c",
+      content: [
+        "#ifndef APP_H",
+        "#define APP_H",
+        "",
+        "#include <stdio.h>",
+        '#include "config.h"',
+        "#define LIMIT 10",
+        "#include <stdlib.h>",
+      ].join("\n"),
+    });
+
+    assert.deepStrictEqual(findImportBlock(typescriptDocument), {
+      startLine: 0,
+      endLine: 3,
+    });
+    assert.deepStrictEqual(findImportBlock(cDocument), {
+      startLine: 3,
+      endLine: 4,
+    });
+  });
+
+  test("getImportedNames should read the names each statement binds", () => {
+    assert.deepStrictEqual(
+      getImportedNames("typescript", 'import React, { useState as useLocal, type FC } from "react";'),
+      ["useLocal", "FC", "React"]
+    );
+    assert.deepStrictEqual(
+      getImportedNames("javascript", 'const { join: joinPath } = require("path");'),
+      ["joinPath"]
+    );
+    assert.deepStrictEqual(
+      getImportedNames("python", "from pathlib import (\n    Path,\n    PurePath as Pure,\n)"),
+      ["Path", "Pure"]
+    );
+    assert.deepStrictEqual(getImportedNames("python", "import os.path, numpy as np"), [
+      "os",
+      "np",
+    ]);
+    assert.deepStrictEqual(
+      getImportedNames("rust", "use std::io::{self, Write as W};"),
+      ["io", "W"]
+    );
+    assert.deepStrictEqual(getImportedNames("java", "import java.util.List;"), ["List"]);
+    assert.strictEqual(getImportedNames("java", "import java.util.*;"), undefined);
+    assert.strictEqual(getImportedNames("typescript", 'import "./polyfills";'), undefined);
+    assert.strictEqual(getImportedNames("c", "#include <stdio.h>"), undefined);
+  });
+
+  test("filterUsedImports should drop unused imports and keep unknown ones", async () => {
+    const document = await vscode.workspace.openTextDocument({
+      language: "typescript",
+      content: [
+        'import "./polyfills";',
+        "// Framework",
+        'import { Request } from "express";',
+        "// Logging",
+        'import { Logger } from "./logger";',
+        'import * as path from "path";',
+        "",
+        "export function handle(req: Request) {",
+        "  return path.join(req.url);",
+        "}",
+      ].join("\n"),
+    });
+    const goDocument = await vscode.workspace.openTextDocument({
+      language: "go",
+      content: 'import (\n\t"fmt"\n\tstr "strings"\n)\n\nfunc main() {}\n',
+    });
+
+    assert.strictEqual(
+      filterUsedImports(
+        document,
+        { startLine: 0, endLine: 5 },
+        "handle(req: Request) { return path.join(req.url); }"
+      ),
+      [
+        'import "./polyfills";',
+        "// Framework",
+        'import { Request } from "express";',
+        'import * as path from "path";',
+      ].join("\n")
+    );
+    assert.strictEqual(
+      filterUsedImports(goDocument, { startLine: 0, endLine: 3 }, 'str.ToUpper("x")'),
+      'import (\n\tstr "strings"\n)'
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import * as assert from "assert";
+import { renderTemplate, TemplateError } from "../templateEngine";
+
+suite("Template Engine Test Suite", () => {
+  test("renderTemplate should substitute plain placeholders", () => {
+    const result = renderTemplate("{filePath}{range}", {
+      filePath: "src/index.ts",
+      range: ":1-2",
+    });
+    assert.strictEqual(result, "src/index.ts:1-2");
+  });
+
+  test("renderTemplate should keep unknown and escaped placeholders literal", () => {
+    const result = renderTemplate("\\{text} {unknown} { \"a\": 1 } {text}", {
+      text: "code",
+    });
+    assert.strictEqual(result, "\\{text} {unknown} { \"a\": 1 } code");
+  });
+
+  test("renderTemplate should not re-expand placeholders inside values", () => {
+    const result = renderTemplate("{text}{range}", {
+      text: "const s = `{range}`;",
+      range: ":3",
+    });
+    assert.strictEqual(result, "const s = `{range}`;:3");
+  });
+
+  test("renderTemplate should render if blocks only when value is non-empty", () => {
+    const template = "{filePath}{#if range}\nlines {range}{/if}\n{text}";
+    assert.strictEqual(
+      renderTemplate(template, { filePath: "a.py", range: ":1-2", text: "x" }),
+      "a.py\nlines :1-2\nx"
+    );
+    assert.strictEqual(
+      renderTemplate(template, { filePath: "a.py", range: "", text: "x" }),
+      "a.py\nx"
+    );
+  });
+
+  test("renderTemplate should support else branches and negated conditions", () => {
+    const template = "{#if range}ranged{:else}whole file{/if}|{#if !range}no range{/if}";
+    assert.strictEqual(renderTemplate(template, { range: "" }), "whole file|no range");
+    assert.strictEqual(renderTemplate(template, { range: ":1" }), "ranged|");
+  });
+
+  test("renderTemplate should apply filters in order", () => {
+    const values = { filePath: "src/pkg/module.py", text: "a\n\nb", range: "" };
+    assert.strictEqual(renderTemplate("{filePath|basename}", values), "module.py");
+    assert.strictEqual(renderTemplate("{filePath|dirname|upper}", values), "SRC/PKG");
+    assert.strictEqual(renderTemplate("{text|indent:2}", values), "  a\n\n  b");
+    assert.strictEqual(renderTemplate("{range|default:\"(file)\"}", values), "(file)");
+    assert.strictEqual(renderTemplate("{range|default:\"\"}", values), "");
+  });
+
+  test("renderTemplate should treat missing values with filters as empty", () => {
+    assert.strictEqual(renderTemplate("{missing|default:'n/a'}", {}), "n/a");
+  });
+
+  test("renderTemplate should report unclosed if blocks", () => {
+    assert.throws(
+      () => renderTemplate("{#if range}{range}", { range: "x" }),
+      (error: unknown) =>
+        error instanceof TemplateError && /Unclosed "\{#if range\}" block/.test(error.message)
+    );
+  });
+
+  test("renderTemplate should report stray closing tags", () => {
+    assert.throws(
+      () => renderTemplate("{text}{/if}", { text: "x" }),
+      (error: unknown) => error instanceof TemplateError && error.offset === 6
+    );
+  });
+
+  test("renderTemplate should report unknown filters and bad arguments", () => {
+    assert.throws(() => renderTemplate("{text|shout}", { text: "x" }), /Unknown filter "shout"/);
+    assert.throws(() => renderTemplate("{text|indent:two}", { text: "x" }), /non-negative integer/);
+    assert.throws(() => renderTemplate("{text|indent}", { text: "x" }), /expects 1 argument/);
+    assert.throws(() => renderTemplate("{text|default:\"x}", { text: "x" }), /Unterminated string/);
+  });
+});
@@ -0,0 +1,25 @@
+import * as assert from "assert";
+import { countTokens, formatTokenCount } from "../tokenCounter";
+
+suite("Token Counter Test Suite", () => {
+  test("countTokens should divide characters by charsPerToken", async () => {
+    assert.strictEqual(await countTokens("abcdefghi"), 3);
+    assert.strictEqual(await countTokens("abcdefghi", { charsPerToken: 3 }), 3);
+    assert.strictEqual(await countTokens("abcdefghi", { charsPerToken: 0 }), 3);
+    assert.strictEqual(await countTokens(""), 0);
+  });
+
+  test("countTokens should use the bundled cl100k table", async () => {
+    assert.strictEqual(await countTokens("hello world", { tokenizer: "cl100k" }), 2);
+    assert.strictEqual(
+      await countTokens("<|endoftext|>", { tokenizer: "cl100k" }) > 1,
+      true
+    );
+  });
+
+  test("formatTokenCount should abbreviate thousands", () => {
+    assert.strictEqual(formatTokenCount(999), "999");
+    assert.strictEqual(formatTokenCount(1234), "1.2k");
+    assert.strictEqual(formatTokenCount(48_700), "49k");
+  });
+});
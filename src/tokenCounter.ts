@@ -0,0 +1,54 @@
+import type { Tiktoken } from "js-tiktoken/lite" with { "resolution-mode": "import" };
+
+export type TokenizerName = "heuristic" | "cl100k";
+
+export type TokenCountOptions = {
+  tokenizer?: TokenizerName;
+  charsPerToken?: number;
+};
+
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+let cl100kEncoder: Promise<Tiktoken> | undefined;
+
+function getCl100kEncoder(): Promise<Tiktoken> {
+  // The BPE table is large, so it is only loaded once it is first needed.
+  cl100kEncoder ??= Promise.all([
+    import("js-tiktoken/lite"),
+    import("js-tiktoken/ranks/cl100k_base"),
+  ]).then(([{ Tiktoken }, ranks]) => new Tiktoken(ranks.default));
+  return cl100kEncoder;
+}
+
+/**
+ * Estimates the number of tokens in `text` without any network access. The
+ * heuristic divides the character count by `charsPerToken`; `cl100k` runs
+ * the bundled BPE table, which is slower but much closer for code.
+ */
+export async function countTokens(
+  text: string,
+  options: TokenCountOptions = {}
+): Promise<number> {
+  if (text.length === 0) {
+    return 0;
+  }
+
+  if (options.tokenizer === "cl100k") {
+    // Special-token markers in copied text are counted as plain text.
+    return (await getCl100kEncoder()).encode(text, [], []).length;
+  }
+
+  const charsPerToken =
+    options.charsPerToken !== undefined && options.charsPerToken > 0
+      ? options.charsPerToken
+      : DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil(text.length / charsPerToken);
+}
+
+export function formatTokenCount(count: number): string {
+  if (count < 1000) {
+    return count.toString();
+  }
+  const thousands = count / 1000;
+  return `${thousands < 10 ? thousands.toFixed(1) : Math.round(thousands)}k`;
+}